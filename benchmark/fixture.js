@@ -0,0 +1,55 @@
+// Generates a Word paste of the given amount of pages, with the lists, tables and images of a typical document.
+// Every page has its own lists, so the stylesheet grows with the document like in a real paste.
+function createWordPaste(pages) {
+    const styles = []
+    const body = []
+
+    for (let page = 0; page < pages; page++) {
+        const bulletList = page * 3 + 1
+        const alphaList = page * 3 + 2
+        const legalList = page * 3 + 3
+
+        styles.push(
+            `@list l${bulletList}:level1 {mso-level-number-format:bullet; mso-level-text:\\F0B7; mso-level-tab-stop:none; text-indent:-18.0pt; font-family:Symbol;}`,
+            `@list l${bulletList}:level2 {mso-level-number-format:bullet; mso-level-text:o; mso-level-tab-stop:none; text-indent:-18.0pt; font-family:"Courier New";}`,
+            `@list l${alphaList}:level1 {mso-level-number-format:alpha-lower; mso-level-start-at:3; mso-level-tab-stop:none; text-indent:-18.0pt;}`,
+            `@list l${legalList}:level1 {mso-level-text:"%1\\."; mso-level-tab-stop:none; text-indent:-18.0pt;}`,
+            `@list l${legalList}:level2 {mso-level-text:"%1\\.%2\\."; mso-level-tab-stop:none; text-indent:-18.0pt;}`
+        )
+
+        body.push(
+            `<h1 style='mso-outline-level:1'><a name="_Toc${page}"><span lang=EN-US>Chapter ${page + 1}</span></a></h1>`,
+            `<p class=MsoNormal><span lang=EN-US style='font-size:11.0pt;mso-bidi-font-family:Calibri'>Some <b>bold</b> and <i>italic</i> text on page ${page + 1}.<o:p></o:p></span></p>`
+        )
+
+        for (let item = 0; item < 4; item++) {
+            body.push(`<p class=MsoListParagraphCxSpMiddle style='text-indent:-18.0pt;mso-list:l${bulletList} level${item % 2 + 1} lfo${bulletList}'><![if !supportLists]><span style='font-family:Symbol;mso-fareast-font-family:Symbol'><span style='mso-list:Ignore'>·<span style='font:7.0pt "Times New Roman"'>&nbsp;&nbsp; </span></span></span><![endif]><span lang=EN-US>Bullet ${item + 1}<o:p></o:p></span></p>`)
+        }
+
+        for (let item = 0; item < 3; item++) {
+            body.push(`<p class=MsoListParagraphCxSpMiddle style='text-indent:-18.0pt;mso-list:l${alphaList} level1 lfo${alphaList}'><![if !supportLists]><span style='mso-list:Ignore'>${String.fromCharCode(99 + item)}.<span style='font:7.0pt "Times New Roman"'>&nbsp; </span></span><![endif]><span lang=EN-US>Item ${item + 1}<o:p></o:p></span></p>`)
+        }
+
+        for (let item = 0; item < 3; item++) {
+            body.push(`<p class=MsoListParagraphCxSpMiddle style='text-indent:-18.0pt;mso-list:l${legalList} level${item == 1 ? 2 : 1} lfo${legalList}'><![if !supportLists]><span style='mso-list:Ignore'>${item + 1}.<span style='font:7.0pt "Times New Roman"'>&nbsp; </span></span><![endif]><span lang=EN-US>Clause ${item + 1}<o:p></o:p></span></p>`)
+        }
+
+        body.push(
+            `<table class=MsoTableGrid border=1 cellspacing=0 cellpadding=0 style='border-collapse:collapse;mso-yfti-tbllook:1184'>`,
+            `<tr style='mso-yfti-irow:0;mso-yfti-firstrow:yes'><td width=301 valign=top style='width:225.4pt;padding:0cm 5.4pt 0cm 5.4pt'><p class=MsoNormal><b>Name<o:p></o:p></b></p></td><td width=301 valign=top style='width:225.4pt;background:#D9E2F3;mso-shading:white'><p class=MsoNormal><b>Value<o:p></o:p></b></p></td></tr>`,
+            `<tr style='mso-yfti-irow:1;mso-yfti-lastrow:yes'><td width=301 valign=top><p class=MsoNormal>Page<o:p></o:p></p></td><td width=301 valign=top><p class=MsoNormal align=right style='text-align:right'>${page + 1}<o:p></o:p></p></td></tr>`,
+            `</table>`,
+            `<p class=MsoNormal><!--[if gte vml 1]><v:shape id="Picture_${page}" o:spid="_x0000_i${page}" type="#_x0000_t75" style='width:100pt;height:50pt'><v:imagedata src="file:///C:/Users/user/AppData/Local/Temp/msohtmlclip1/01/clip_image${page}.png" o:title=""/></v:shape><![endif]--><![if !vml]><img width=133 height=67 src="file:///C:/Users/user/AppData/Local/Temp/msohtmlclip1/01/clip_image${page}.png" v:shapes="Picture_${page}"><![endif]><o:p></o:p></p>`
+        )
+    }
+
+    return `<html xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">
+<head><meta name=Generator content="Microsoft Word 15"><style><!--
+${styles.join('\n')}
+--></style></head>
+<body lang=EN-US style='tab-interval:36.0pt'>
+<!--StartFragment-->${body.join('\n')}<!--EndFragment-->
+</body></html>`
+}
+
+module.exports = {createWordPaste}
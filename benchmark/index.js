@@ -0,0 +1,29 @@
+// Normalizes Word pastes of an increasing amount of pages. The time per page should stay about the same, a time per
+// page growing with the size of the paste means a step does not scale linearly.
+//
+// Run with `pnpm benchmark` after `pnpm install`.
+const {DOMParser} = require('linkedom')
+const {MSWordNormalizer} = require('../dist')
+const {createWordPaste} = require('./fixture')
+
+const PAGES = [25, 50, 100, 200, 400]
+const RUNS = 3
+
+const normalizer = new MSWordNormalizer({dom: {DOMParser}})
+
+// Warms up the JIT compiler.
+normalizer.normalize(createWordPaste(10))
+
+for (const pages of PAGES) {
+    const html = createWordPaste(pages)
+    let fastest = Infinity
+
+    for (let run = 0; run < RUNS; run++) {
+        const start = process.hrtime.bigint()
+        normalizer.normalize(html)
+        fastest = Math.min(fastest, Number(process.hrtime.bigint() - start) / 1e6)
+    }
+
+    console.log(`${String(pages).padStart(4)} pages  ${(html.length / 1024).toFixed(0).padStart(6)} KB  ` +
+        `${fastest.toFixed(0).padStart(6)} ms  ${(fastest / pages).toFixed(2)} ms/page`)
+}
@@ -0,0 +1,156 @@
+import {convertObjectToStyle, convertStyleToObject} from './normalizer'
+import {convertLengthToPoints} from './tables'
+
+export type BreakType = 'page' | 'section'
+
+// `hr` converts the page and section breaks into horizontal rules and `remove` drops them. A function creates a
+// custom marker element instead, e.g. for a page break node.
+export type BreakMarker = 'hr' | 'remove' | ((doc: Document, type: BreakType) => Element)
+
+export interface BlockFormattingOptions {
+    // The left margin of one indent level in points, 36pt (half an inch, the default tab stop in Word) by default.
+    indentSize?: number
+    breaks?: BreakMarker
+}
+
+const INDENTED_ELEMENTS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre']
+const BLOCK_ELEMENTS = [...INDENTED_ELEMENTS, 'div', 'li', 'td', 'th', 'body']
+
+// The text indent Lexical reads as one indent level.
+const LEXICAL_INDENT_PX = 20
+
+export function transformBlockFormatting(doc: Document, options: BlockFormattingOptions) {
+    transformBreaks(doc, options.breaks ?? 'hr')
+
+    for (const block of Array.from(doc.body.querySelectorAll(INDENTED_ELEMENTS.join(', ')))) {
+        // The margins of list items are the list levels.
+        if (block.parentElement?.closest('li')) {
+            continue
+        }
+
+        const style = convertStyleToObject(block.getAttribute('style') || '')
+
+        transformAlignment(block, style)
+        transformIndent(style, options.indentSize ?? 36)
+
+        const updatedStyle = convertObjectToStyle(style)
+
+        if (updatedStyle) {
+            block.setAttribute('style', updatedStyle)
+        } else {
+            block.removeAttribute('style')
+        }
+    }
+}
+
+// Lexical only reads the `text-align` property.
+function transformAlignment(block: Element, style: Record<string, string>) {
+    const align = block.getAttribute('align')
+
+    if (align && !style['text-align']) {
+        style['text-align'] = align.toLowerCase()
+    }
+    block.removeAttribute('align')
+}
+
+// Lexical reads the indent level from the `text-indent` property, the first line indent of Word is not supported.
+function transformIndent(style: Record<string, string>, indentSize: number) {
+    let margin = style['margin-left']
+    const marginValues = (style['margin'] || '').split(/\s+/)
+
+    if (margin === undefined && marginValues.length == 4) {
+        margin = marginValues[3]
+        style['margin'] = [...marginValues.slice(0, 3), '0'].join(' ')
+    }
+
+    delete style['margin-left']
+    delete style['text-indent']
+
+    const level = Math.round((convertLengthToPoints(margin || '') ?? 0) / indentSize)
+
+    if (level > 0) {
+        style['text-indent'] = `${level * LEXICAL_INDENT_PX}px`
+    }
+}
+
+function transformBreaks(doc: Document, marker: BreakMarker) {
+    for (const lineBreak of Array.from(doc.body.querySelectorAll('br[style]'))) {
+        const type = getBreakType(convertStyleToObject(lineBreak.getAttribute('style') || ''))
+
+        if (!type) {
+            continue
+        }
+
+        // The element the break is inline content of, e.g. a paragraph or the body.
+        let inline: Element = lineBreak
+        while (inline.parentElement && !BLOCK_ELEMENTS.includes(inline.parentElement.tagName.toLowerCase())) {
+            inline = inline.parentElement
+        }
+        const block = inline.parentElement!
+
+        const breakElement = marker == 'remove' ? null : marker == 'hr' ? doc.createElement('hr') : marker(doc, type)
+
+        const isParagraph = INDENTED_ELEMENTS.includes(block.tagName.toLowerCase())
+
+        if (isParagraph) {
+            splitBlock(doc, block, inline, breakElement)
+        } else if (breakElement) {
+            block.insertBefore(breakElement, inline)
+        }
+
+        removeWithEmptyAncestors(lineBreak, block)
+
+        if (isParagraph && !hasContent(block)) {
+            block.parentNode?.removeChild(block)
+        }
+    }
+}
+
+// Moves the content after the break into a copy of the block, so the marker is not inside a paragraph.
+function splitBlock(doc: Document, block: Element, inline: Element, breakElement: Element | null) {
+    const nextBlock = doc.createElement(block.tagName.toLowerCase())
+
+    for (const attribute of Array.from(block.attributes)) {
+        nextBlock.setAttribute(attribute.name, attribute.value)
+    }
+
+    while (inline.nextSibling) {
+        nextBlock.appendChild(inline.nextSibling)
+    }
+
+    if (breakElement) {
+        block.parentNode?.insertBefore(breakElement, block.nextSibling)
+    }
+
+    if (hasContent(nextBlock)) {
+        block.parentNode?.insertBefore(nextBlock, (breakElement ?? block).nextSibling)
+    }
+}
+
+function getBreakType(style: Record<string, string>): BreakType | null {
+    if (style['mso-break-type'] == 'section-break') {
+        return 'section'
+    }
+
+    if (style['page-break-before'] == 'always' || style['page-break-after'] == 'always') {
+        return 'page'
+    }
+
+    return null
+}
+
+// Also removes the formatting elements around the element which become empty.
+function removeWithEmptyAncestors(element: Element, root: Element) {
+    let parent: Element | null = element.parentElement
+    element.parentNode?.removeChild(element)
+
+    while (parent && parent !== root && !hasContent(parent)) {
+        const next = parent.parentElement
+        parent.parentNode?.removeChild(parent)
+        parent = next
+    }
+}
+
+export function hasContent(element: Element): boolean {
+    return !!(element.textContent || '').trim() || !!element.querySelector('img, table, hr')
+}
@@ -0,0 +1,463 @@
+// The notation of the `data-equation` attribute, to be imported by a custom equation node.
+export type EquationFormat = 'latex' | 'mathml'
+
+const EQUATION_COMMENT_REGEX = /^\[if gte msEquation 12\]>([\s\S]*)<!\[endif\]$/
+
+const FUNCTION_NAMES = [
+    'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'sinh', 'cosh', 'tanh', 'coth', 'arcsin', 'arccos', 'arctan',
+    'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'det', 'arg', 'deg', 'dim', 'gcd', 'inf', 'sup', 'ker', 'Pr'
+]
+
+const LATEX_SYMBOLS: Record<string, string> = {
+    'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'ζ': '\\zeta', 'η': '\\eta',
+    'θ': '\\theta', 'ι': '\\iota', 'κ': '\\kappa', 'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi',
+    'ρ': '\\rho', 'σ': '\\sigma', 'ς': '\\varsigma', 'τ': '\\tau', 'υ': '\\upsilon', 'φ': '\\varphi', 'ϕ': '\\phi',
+    'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega', 'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda',
+    'Ξ': '\\Xi', 'Π': '\\Pi', 'Σ': '\\Sigma', 'Υ': '\\Upsilon', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+    '±': '\\pm', '∓': '\\mp', '×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '∙': '\\cdot',
+    '∞': '\\infty', '≤': '\\le', '≥': '\\ge', '≠': '\\neq', '≈': '\\approx', '≡': '\\equiv', '∼': '\\sim',
+    '≅': '\\cong', '∝': '\\propto', '→': '\\to', '←': '\\leftarrow', '↔': '\\leftrightarrow', '⇒': '\\Rightarrow',
+    '⇐': '\\Leftarrow', '⇔': '\\Leftrightarrow', '∈': '\\in', '∉': '\\notin', '∋': '\\ni', '⊂': '\\subset',
+    '⊃': '\\supset', '⊆': '\\subseteq', '⊇': '\\supseteq', '∪': '\\cup', '∩': '\\cap', '∅': '\\emptyset',
+    '∂': '\\partial', '∇': '\\nabla', '∀': '\\forall', '∃': '\\exists', '¬': '\\neg', '∧': '\\wedge', '∨': '\\vee',
+    '…': '\\ldots', '⋯': '\\cdots', '⋮': '\\vdots', '⋱': '\\ddots', '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod',
+    '∫': '\\int', '∬': '\\iint', '∭': '\\iiint', '∮': '\\oint', '⋃': '\\bigcup', '⋂': '\\bigcap', '√': '\\surd',
+    '⊥': '\\perp', '∥': '\\parallel', '∠': '\\angle', '°': '^\\circ', 'ℏ': '\\hbar', 'ℓ': '\\ell', '′': '\'',
+    '″': '\'\'', '−': '-', '⟨': '\\langle', '⟩': '\\rangle', '⌈': '\\lceil', '⌉': '\\rceil', '⌊': '\\lfloor',
+    '⌋': '\\rfloor', '‖': '\\|', '{': '\\{', '}': '\\}', '#': '\\#', '$': '\\$', '%': '\\%', '&': '\\&', '_': '\\_',
+    '\\': '\\backslash'
+}
+
+// The LaTeX accents by combining character, e.g. U+0302 for a hat.
+const LATEX_ACCENTS: Record<string, string> = {
+    '\u0300': '\\grave', '\u0301': '\\acute', '\u0302': '\\hat', '\u0303': '\\tilde', '\u0304': '\\bar',
+    '\u0305': '\\overline', '\u0306': '\\breve', '\u0307': '\\dot', '\u0308': '\\ddot', '\u030C': '\\check',
+    '\u20D7': '\\vec', '\u20D6': '\\overleftarrow'
+}
+
+// The n-ary operators which have their limits as sub- and superscript by default.
+const INTEGRALS = ['∫', '∬', '∭', '∮', '∯', '∰']
+
+// Word writes the equations in a conditional comment, followed by a fallback image for other applications. The
+// equations are converted into an element with the equation as `data-equation` attribute and its plain text as
+// content, a `div` for a display equation and a `span` for an equation in the text.
+export function transformEquations(doc: Document, format: EquationFormat) {
+    for (const comment of collectComments(doc.body)) {
+        const match = comment.data.match(EQUATION_COMMENT_REGEX)
+
+        if (!match || !comment.parentNode) {
+            continue
+        }
+
+        const container = doc.createElement('div')
+        container.innerHTML = closeEmptyElements(match[1]!)
+
+        // Without math markup the fallback image is all there is.
+        if (!findEquations(container).length) {
+            continue
+        }
+
+        removeFallbackImage(comment)
+
+        while (container.firstChild) {
+            comment.parentNode.insertBefore(container.firstChild, comment)
+        }
+        comment.parentNode.removeChild(comment)
+    }
+
+    // Equations can also be pasted as elements, without comment.
+    for (const equation of findEquations(doc.body)) {
+        replaceEquation(doc, equation, format)
+    }
+}
+
+function replaceEquation(doc: Document, equation: Element, format: EquationFormat) {
+    const isDisplay = getName(equation) == 'm:omathpara'
+    const paragraph = equation.parentElement?.closest('p, h1, h2, h3, h4, h5, h6, li, td, th')
+    const text = (equation.textContent || '').replace(/\s+/g, ' ').trim()
+    const source = format == 'mathml' ? convertToMathml(equation, isDisplay) : convertToLatex(equation).replace(/\s+/g, ' ').trim()
+
+    // A display equation is a block of its own, unless it shares the paragraph with text.
+    const isBlock = isDisplay && !!paragraph && paragraph.tagName.toLowerCase() == 'p' &&
+        (paragraph.textContent || '').replace(/\s+/g, ' ').trim() == text
+    const element = doc.createElement(isBlock ? 'div' : 'span')
+
+    element.setAttribute('data-equation', source)
+    element.textContent = text
+
+    if (isBlock) {
+        paragraph!.parentNode?.replaceChild(element, paragraph!)
+    } else {
+        equation.parentNode?.replaceChild(element, equation)
+    }
+}
+
+// The outermost equations, a display equation (`m:oMathPara`) contains one or more `m:oMath` elements.
+function findEquations(root: Element): Element[] {
+    return Array.from(root.querySelectorAll('*')).filter(element => {
+        const name = getName(element)
+
+        return name == 'm:omathpara' || name == 'm:omath' && !findAncestor(element, 'm:omathpara')
+    })
+}
+
+function convertToLatex(node: Element): string {
+    const name = getName(node)
+
+    switch (name) {
+        case 'm:omathpara':
+            return getChildren(node, 'm:omath').map(convertToLatex).join(' \\\\ ')
+        case 'm:r':
+            return convertTextToLatex(getRunText(node), isPlainRun(node))
+        case 'm:f': {
+            const type = getProperty(node, 'm:fpr', 'm:type')
+            const numerator = latexArgument(getChild(node, 'm:num'))
+            const denominator = latexArgument(getChild(node, 'm:den'))
+
+            if (type == 'lin') {
+                return `${numerator}/${denominator}`
+            } else if (type == 'noBar') {
+                return `\\genfrac{}{}{0pt}{}${numerator}${denominator}`
+            }
+            return `\\frac${numerator}${denominator}`
+        }
+        case 'm:ssup':
+            return `${latexArgument(getChild(node, 'm:e'))}^${latexArgument(getChild(node, 'm:sup'))}`
+        case 'm:ssub':
+            return `${latexArgument(getChild(node, 'm:e'))}_${latexArgument(getChild(node, 'm:sub'))}`
+        case 'm:ssubsup':
+            return `${latexArgument(getChild(node, 'm:e'))}_${latexArgument(getChild(node, 'm:sub'))}^${latexArgument(getChild(node, 'm:sup'))}`
+        case 'm:spre':
+            return `{}_${latexArgument(getChild(node, 'm:sub'))}^${latexArgument(getChild(node, 'm:sup'))}${latexArgument(getChild(node, 'm:e'))}`
+        case 'm:rad': {
+            const degree = getChild(node, 'm:deg')
+            const hasDegree = !isOn(getProperty(node, 'm:radpr', 'm:deghide')) && !!degree?.textContent?.trim()
+
+            return `\\sqrt${hasDegree ? `[${convertChildrenToLatex(degree!)}]` : ''}${latexArgument(getChild(node, 'm:e'))}`
+        }
+        case 'm:nary': {
+            const operator = getProperty(node, 'm:narypr', 'm:chr') || '∫'
+            const sub = !isOn(getProperty(node, 'm:narypr', 'm:subhide')) ? getChild(node, 'm:sub') : undefined
+            const sup = !isOn(getProperty(node, 'm:narypr', 'm:suphide')) ? getChild(node, 'm:sup') : undefined
+
+            return `${convertTextToLatex(operator, false).trim()}${sub ? `_${latexArgument(sub)}` : ''}${sup ? `^${latexArgument(sup)}` : ''}` +
+                ` ${convertChildrenToLatex(getChild(node, 'm:e'))}`
+        }
+        case 'm:d': {
+            const begin = getProperty(node, 'm:dpr', 'm:begchr') ?? '('
+            const end = getProperty(node, 'm:dpr', 'm:endchr') ?? ')'
+            const separator = getProperty(node, 'm:dpr', 'm:sepchr') ?? '|'
+            const elements = getChildren(node, 'm:e').map(convertChildrenToLatex)
+
+            return `\\left${convertDelimiterToLatex(begin)} ${elements.join(` ${convertDelimiterToLatex(separator)} `)} ` +
+                `\\right${convertDelimiterToLatex(end)}`
+        }
+        case 'm:func': {
+            const functionName = getChild(node, 'm:fname')
+            const text = (functionName?.textContent || '').trim()
+            const nameLatex = FUNCTION_NAMES.includes(text) ? `\\${text} ` :
+                /^[A-Za-z]+$/.test(text) ? `\\operatorname{${text}}` :
+                convertChildrenToLatex(functionName)
+
+            return `${nameLatex}${latexArgument(getChild(node, 'm:e'))}`
+        }
+        case 'm:acc': {
+            const accent = getProperty(node, 'm:accpr', 'm:chr') || '\u0302'
+
+            return `${LATEX_ACCENTS[accent] ?? '\\hat'}${latexArgument(getChild(node, 'm:e'))}`
+        }
+        case 'm:bar':
+            return `${getProperty(node, 'm:barpr', 'm:pos') == 'top' ? '\\overline' : '\\underline'}${latexArgument(getChild(node, 'm:e'))}`
+        case 'm:limlow': {
+            const base = convertChildrenToLatex(getChild(node, 'm:e')).trim()
+            const limit = latexArgument(getChild(node, 'm:lim'))
+
+            // Function names like lim take the limit as subscript.
+            return FUNCTION_NAMES.includes(base.replace(/^\\/, '')) ? `${base}_${limit}` : `\\underset${limit}{${base}}`
+        }
+        case 'm:limupp':
+            return `\\overset${latexArgument(getChild(node, 'm:lim'))}${latexArgument(getChild(node, 'm:e'))}`
+        case 'm:groupchr': {
+            const isTop = getProperty(node, 'm:groupchrpr', 'm:pos') == 'top'
+
+            return `${isTop ? '\\overbrace' : '\\underbrace'}${latexArgument(getChild(node, 'm:e'))}`
+        }
+        case 'm:eqarr':
+            return `\\begin{aligned}${getChildren(node, 'm:e').map(convertChildrenToLatex).join(' \\\\ ')}\\end{aligned}`
+        case 'm:m':
+            return `\\begin{matrix}${getChildren(node, 'm:mr').map(row => {
+                return getChildren(row, 'm:e').map(convertChildrenToLatex).join(' & ')
+            }).join(' \\\\ ')}\\end{matrix}`
+        case 'm:borderbox':
+            return `\\boxed${latexArgument(getChild(node, 'm:e'))}`
+        default:
+            return isProperties(name) ? '' : convertChildrenToLatex(node)
+    }
+}
+
+function convertChildrenToLatex(node: Element | undefined): string {
+    return node ? Array.from(node.children).map(convertToLatex).join('') : ''
+}
+
+function latexArgument(node: Element | undefined): string {
+    return `{${convertChildrenToLatex(node).trim()}}`
+}
+
+function convertTextToLatex(text: string, isPlain: boolean): string {
+    text = normalizeMathText(text)
+
+    if (isPlain && FUNCTION_NAMES.includes(text.trim())) {
+        return `\\${text.trim()} `
+    } else if (isPlain && /^[A-Za-z]{2,}$/.test(text)) {
+        return `\\mathrm{${text}}`
+    }
+
+    return Array.from(text).map(character => {
+        const symbol = LATEX_SYMBOLS[character]
+
+        // Commands are followed by a space, so they do not run into the next letter.
+        return symbol ? (/[a-z]$/i.test(symbol) ? `${symbol} ` : symbol) : character
+    }).join('')
+}
+
+function convertDelimiterToLatex(delimiter: string): string {
+    return delimiter ? LATEX_SYMBOLS[delimiter] ?? delimiter : '.'
+}
+
+function convertToMathml(equation: Element, isDisplay: boolean): string {
+    return `<math xmlns="http://www.w3.org/1998/Math/MathML" display="${isDisplay ? 'block' : 'inline'}">` +
+        `${convertNodeToMathml(equation)}</math>`
+}
+
+function convertNodeToMathml(node: Element): string {
+    const name = getName(node)
+
+    switch (name) {
+        case 'm:omathpara': {
+            const rows = getChildren(node, 'm:omath').map(convertNodeToMathml)
+
+            return rows.length == 1 ? rows[0]! : `<mtable>${rows.map(row => `<mtr><mtd>${row}</mtd></mtr>`).join('')}</mtable>`
+        }
+        case 'm:omath':
+            return mathmlRow(node)
+        case 'm:r':
+            return convertTextToMathml(getRunText(node), isPlainRun(node))
+        case 'm:f': {
+            const type = getProperty(node, 'm:fpr', 'm:type')
+            const numerator = mathmlRow(getChild(node, 'm:num'))
+            const denominator = mathmlRow(getChild(node, 'm:den'))
+
+            if (type == 'lin') {
+                return `<mrow>${numerator}<mo>/</mo>${denominator}</mrow>`
+            }
+            return `<mfrac${type == 'noBar' ? ' linethickness="0"' : ''}>${numerator}${denominator}</mfrac>`
+        }
+        case 'm:ssup':
+            return `<msup>${mathmlRow(getChild(node, 'm:e'))}${mathmlRow(getChild(node, 'm:sup'))}</msup>`
+        case 'm:ssub':
+            return `<msub>${mathmlRow(getChild(node, 'm:e'))}${mathmlRow(getChild(node, 'm:sub'))}</msub>`
+        case 'm:ssubsup':
+            return `<msubsup>${mathmlRow(getChild(node, 'm:e'))}${mathmlRow(getChild(node, 'm:sub'))}${mathmlRow(getChild(node, 'm:sup'))}</msubsup>`
+        case 'm:spre':
+            return `<mmultiscripts>${mathmlRow(getChild(node, 'm:e'))}<mprescripts/>${mathmlRow(getChild(node, 'm:sub'))}` +
+                `${mathmlRow(getChild(node, 'm:sup'))}</mmultiscripts>`
+        case 'm:rad': {
+            const degree = getChild(node, 'm:deg')
+            const hasDegree = !isOn(getProperty(node, 'm:radpr', 'm:deghide')) && !!degree?.textContent?.trim()
+
+            return hasDegree ?
+                `<mroot>${mathmlRow(getChild(node, 'm:e'))}${mathmlRow(degree)}</mroot>` :
+                `<msqrt>${mathmlRow(getChild(node, 'm:e'))}</msqrt>`
+        }
+        case 'm:nary': {
+            const operator = getProperty(node, 'm:narypr', 'm:chr') || '∫'
+            const sub = !isOn(getProperty(node, 'm:narypr', 'm:subhide')) ? getChild(node, 'm:sub') : undefined
+            const sup = !isOn(getProperty(node, 'm:narypr', 'm:suphide')) ? getChild(node, 'm:sup') : undefined
+            const limitLocation = getProperty(node, 'm:narypr', 'm:limloc') ?? (INTEGRALS.includes(operator) ? 'subSup' : 'undOvr')
+            const isUnderOver = limitLocation == 'undOvr'
+
+            let base = `<mo largeop="true">${escapeXml(operator)}</mo>`
+            if (sub && sup) {
+                base = `<${isUnderOver ? 'munderover' : 'msubsup'}>${base}${mathmlRow(sub)}${mathmlRow(sup)}</${isUnderOver ? 'munderover' : 'msubsup'}>`
+            } else if (sub) {
+                base = `<${isUnderOver ? 'munder' : 'msub'}>${base}${mathmlRow(sub)}</${isUnderOver ? 'munder' : 'msub'}>`
+            } else if (sup) {
+                base = `<${isUnderOver ? 'mover' : 'msup'}>${base}${mathmlRow(sup)}</${isUnderOver ? 'mover' : 'msup'}>`
+            }
+
+            return `<mrow>${base}${mathmlRow(getChild(node, 'm:e'))}</mrow>`
+        }
+        case 'm:d': {
+            const begin = getProperty(node, 'm:dpr', 'm:begchr') ?? '('
+            const end = getProperty(node, 'm:dpr', 'm:endchr') ?? ')'
+            const separator = `<mo>${escapeXml(getProperty(node, 'm:dpr', 'm:sepchr') ?? '|')}</mo>`
+
+            return `<mrow>${begin ? `<mo>${escapeXml(begin)}</mo>` : ''}` +
+                `${getChildren(node, 'm:e').map(mathmlRow).join(separator)}${end ? `<mo>${escapeXml(end)}</mo>` : ''}</mrow>`
+        }
+        case 'm:func':
+            return `<mrow>${mathmlRow(getChild(node, 'm:fname'))}<mo>&#x2061;</mo>${mathmlRow(getChild(node, 'm:e'))}</mrow>`
+        case 'm:acc': {
+            const accent = getProperty(node, 'm:accpr', 'm:chr') || '\u0302'
+
+            return `<mover accent="true">${mathmlRow(getChild(node, 'm:e'))}<mo>${escapeXml(accent)}</mo></mover>`
+        }
+        case 'm:bar':
+            return getProperty(node, 'm:barpr', 'm:pos') == 'top' ?
+                `<mover>${mathmlRow(getChild(node, 'm:e'))}<mo>&#x203E;</mo></mover>` :
+                `<munder>${mathmlRow(getChild(node, 'm:e'))}<mo>_</mo></munder>`
+        case 'm:limlow':
+            return `<munder>${mathmlRow(getChild(node, 'm:e'))}${mathmlRow(getChild(node, 'm:lim'))}</munder>`
+        case 'm:limupp':
+            return `<mover>${mathmlRow(getChild(node, 'm:e'))}${mathmlRow(getChild(node, 'm:lim'))}</mover>`
+        case 'm:groupchr': {
+            const isTop = getProperty(node, 'm:groupchrpr', 'm:pos') == 'top'
+            const character = getProperty(node, 'm:groupchrpr', 'm:chr') || (isTop ? '⏞' : '⏟')
+
+            return `<${isTop ? 'mover' : 'munder'}>${mathmlRow(getChild(node, 'm:e'))}<mo>${escapeXml(character)}</mo></${isTop ? 'mover' : 'munder'}>`
+        }
+        case 'm:eqarr':
+            return `<mtable>${getChildren(node, 'm:e').map(row => `<mtr><mtd>${mathmlRow(row)}</mtd></mtr>`).join('')}</mtable>`
+        case 'm:m':
+            return `<mtable>${getChildren(node, 'm:mr').map(row => {
+                return `<mtr>${getChildren(row, 'm:e').map(cell => `<mtd>${mathmlRow(cell)}</mtd>`).join('')}</mtr>`
+            }).join('')}</mtable>`
+        case 'm:borderbox':
+            return `<menclose notation="box">${mathmlRow(getChild(node, 'm:e'))}</menclose>`
+        default:
+            return isProperties(name) ? '' : Array.from(node.children).map(convertNodeToMathml).join('')
+    }
+}
+
+function mathmlRow(node: Element | undefined): string {
+    return `<mrow>${node ? Array.from(node.children).map(convertNodeToMathml).join('') : ''}</mrow>`
+}
+
+function convertTextToMathml(text: string, isPlain: boolean): string {
+    text = normalizeMathText(text)
+
+    if (isPlain && /^[A-Za-z]{2,}$/.test(text.trim()) || FUNCTION_NAMES.includes(text.trim())) {
+        return `<mi>${escapeXml(text.trim())}</mi>`
+    }
+
+    const tokens = text.match(/\d+(?:\.\d+)?|[A-Za-z\u0370-\u03FF]|\s+|[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S]/g) || []
+
+    return tokens.map(token => {
+        if (/^\d/.test(token)) {
+            return `<mn>${token}</mn>`
+        } else if (/^[A-Za-z\u0370-\u03FF]$/.test(token)) {
+            return isPlain ? `<mi mathvariant="normal">${token}</mi>` : `<mi>${token}</mi>`
+        } else if (/^\s+$/.test(token)) {
+            return ''
+        }
+        return `<mo>${escapeXml(token)}</mo>`
+    }).join('')
+}
+
+// The text of a run, which Word writes in the run itself or in a `m:t` element.
+function getRunText(run: Element): string {
+    return Array.from(run.childNodes)
+        .filter(node => node.nodeType != 1 || !isProperties(getName(node as Element)))
+        .map(node => node.textContent || '')
+        .join('')
+}
+
+// Runs with the `p` (plain) style or the normal text property are not italic, like function names and units.
+function isPlainRun(run: Element): boolean {
+    return getProperty(run, 'm:rpr', 'm:sty') == 'p' || !!getChild(getChild(run, 'm:rpr'), 'm:nor')
+}
+
+// The mathematical italic letters (e.g. U+1D465 for x) some applications use are plain letters in LaTeX and MathML.
+function normalizeMathText(text: string): string {
+    return Array.from(text).map(character => {
+        const code = character.codePointAt(0)!
+
+        if (code >= 0x1D434 && code <= 0x1D44D) {
+            return String.fromCharCode(65 + code - 0x1D434)
+        } else if (code >= 0x1D44E && code <= 0x1D467) {
+            return String.fromCharCode(97 + code - 0x1D44E)
+        }
+        return character == 'ℎ' ? 'h' : character
+    }).join('')
+}
+
+// The `m:val` of a property, e.g. the `m:chr` in the `m:naryPr` of an n-ary operator.
+function getProperty(node: Element, propertiesName: string, name: string): string | null {
+    const property = getChild(getChild(node, propertiesName), name)
+
+    if (!property) {
+        return null
+    }
+
+    // A property without value is switched on.
+    return property.getAttribute('m:val') ?? 'on'
+}
+
+function isOn(value: string | null): boolean {
+    return value !== null && ['on', '1', 'true'].includes(value)
+}
+
+function isProperties(name: string): boolean {
+    return /^m:\w+pr$/.test(name)
+}
+
+function getName(element: Element): string {
+    return element.tagName.toLowerCase()
+}
+
+function getChildren(node: Element, name: string): Element[] {
+    return Array.from(node.children).filter(child => getName(child) == name)
+}
+
+function getChild(node: Element | undefined, name: string): Element | undefined {
+    return node ? getChildren(node, name)[0] : undefined
+}
+
+function findAncestor(element: Element, name: string): Element | null {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+        if (getName(parent) == name) {
+            return parent
+        }
+    }
+
+    return null
+}
+
+// The fallback image (or the span around it) following the equation comment.
+function removeFallbackImage(comment: Comment) {
+    let sibling = comment.nextSibling
+
+    while (sibling && (sibling.nodeType == 8 || sibling.nodeType == 3 && !sibling.textContent?.trim())) {
+        sibling = sibling.nextSibling
+    }
+
+    if (sibling?.nodeType != 1) {
+        return
+    }
+
+    const element = sibling as Element
+    if (element.tagName.toLowerCase() == 'img' || !!element.querySelector('img') && !element.textContent?.trim()) {
+        element.parentNode?.removeChild(element)
+    }
+}
+
+// Empty elements like `<m:sty m:val="p"/>` would otherwise contain the content after them.
+function closeEmptyElements(markup: string): string {
+    return markup.replace(/<(m:\w+)([^>]*?)\s*\/>/g, '<$1$2></$1>')
+}
+
+function collectComments(root: Node, comments: Comment[] = []): Comment[] {
+    for (const node of Array.from(root.childNodes)) {
+        if (node.nodeType == 8) {
+            comments.push(node as Comment)
+        } else {
+            collectComments(node, comments)
+        }
+    }
+
+    return comments
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
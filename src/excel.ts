@@ -0,0 +1,101 @@
+import {convertObjectToStyle, convertStyleToObject, parseClassRules, parseDocument, parseHtml} from './normalizer'
+import {StepNormalizer} from './stepnormalizer'
+import {normalizeTables} from './tables'
+import {getFormattingTagNames, wrapChildrenInElements} from './formatting'
+import type {NormalizerOptions, NormalizerResult} from './types'
+
+const EXCEL_MATCHES = [
+    /<meta\s*name="?progid"?\s*content="?excel\.sheet"?\/?>/i,
+    /<meta\s*name="?generator"?\s*content="?microsoft\s*excel\s*\d+"?\/?>/i
+]
+
+const EXCEL_NAMESPACE_MATCH = /xmlns:x="urn:schemas-microsoft-com:office:excel"/i
+const WORD_NAMESPACE_MATCH = /xmlns:w="urn:schemas-microsoft-com:office:word"/i
+
+// Word also declares the Excel namespace in some versions, so the namespace alone is not enough.
+export function isExcelHtml(htmlString: string): boolean {
+    return EXCEL_MATCHES.some(regex => regex.test(htmlString)) ||
+        (EXCEL_NAMESPACE_MATCH.test(htmlString) && !WORD_NAMESPACE_MATCH.test(htmlString))
+}
+
+export class ExcelNormalizer extends StepNormalizer {
+    constructor(options: NormalizerOptions = {}) {
+        super(options)
+        this.setSteps([
+            {name: 'splitOverflowingCells', run: doc => this.splitOverflowingCells(doc)},
+            {name: 'applyClassStyles', run: (doc, {stylesString}) => this.applyClassStyles(doc, stylesString)},
+            {name: 'removeExcelAttributes', run: doc => this.removeExcelAttributes(doc)},
+            {name: 'normalizeTables', run: doc => normalizeTables(doc)}
+        ])
+    }
+
+    public isActive(htmlString: string): boolean {
+        return isExcelHtml(htmlString)
+    }
+
+    protected normalizeDocument(htmlString: string, options: NormalizerOptions, result: NormalizerResult): Document {
+        const domParser = this.createDomParser()
+        const {bodyString, stylesString} = parseHtml(htmlString, domParser)
+        const doc = parseDocument(domParser, bodyString)
+        this.runSteps(doc, {stylesString, options, result})
+        return doc
+    }
+
+    private splitOverflowingCells(doc: Document) {
+        // Excel writes text overflowing into empty neighbour cells as a colspan, which is not a merged cell.
+        for (const cell of Array.from(doc.querySelectorAll('td[colspan], th[colspan]'))) {
+            const style = convertStyleToObject(cell.getAttribute('style') || '')
+
+            if (style['mso-ignore'] != 'colspan') {
+                continue
+            }
+
+            const span = parseInt(cell.getAttribute('colspan') || '1')
+            cell.removeAttribute('colspan')
+
+            for (let index = 1; index < span; index++) {
+                cell.parentNode?.insertBefore(doc.createElement(cell.tagName.toLowerCase()), cell.nextSibling)
+            }
+        }
+    }
+
+    private applyClassStyles(doc: Document, stylesString: string) {
+        const classStyles = parseClassRules(stylesString, ['td', 'th'])
+
+        for (const cell of Array.from(doc.querySelectorAll('td, th'))) {
+            const style: Record<string, string> = {}
+
+            for (const className of Array.from(cell.classList)) {
+                Object.assign(style, classStyles[className.toLowerCase()] ?? {})
+            }
+            Object.assign(style, convertStyleToObject(cell.getAttribute('style') || ''))
+
+            if (cell.getAttribute('align') && !style['text-align']) {
+                style['text-align'] = cell.getAttribute('align')!
+            }
+
+            if (cell.textContent?.trim()) {
+                wrapChildrenInElements(doc, cell, getFormattingTagNames(style))
+            }
+
+            cell.setAttribute('style', convertObjectToStyle(style))
+        }
+    }
+
+    private removeExcelAttributes(doc: Document) {
+        // The column widths are taken from the cells.
+        for (const col of Array.from(doc.querySelectorAll('col'))) {
+            col.parentNode?.removeChild(col)
+        }
+
+        for (const element of Array.from(doc.querySelectorAll('table, col, tr, td, th'))) {
+            for (const attribute of Array.from(element.attributes)) {
+                // The displayed text of numbers and dates is kept, the raw `x:num` values are not.
+                if (attribute.name.startsWith('x:') || ['class', 'height', 'align'].includes(attribute.name)) {
+                    element.removeAttribute(attribute.name)
+                }
+            }
+        }
+    }
+}
+
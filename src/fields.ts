@@ -0,0 +1,214 @@
+import {convertStyleToObject, unwrapElement} from './normalizer'
+import {hasContent} from './blockformatting'
+
+// `list` rebuilds the table of contents as a list of links to the headings, `remove` drops it.
+export type TableOfContentsMode = 'list' | 'remove'
+
+const TOC_ENTRY_CLASS_REGEX = /^msotoc(\d)$/i
+const BOOKMARK_BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, div, td, th'
+const FIELD_BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li'
+
+export function transformFields(doc: Document, tableOfContents: TableOfContentsMode) {
+    removeFieldCodes(doc)
+    transformTableOfContents(doc, tableOfContents)
+    removeBookmarks(doc)
+}
+
+// Only the displayed result of a field (e.g. HYPERLINK, PAGEREF or DATE) is kept.
+function removeFieldCodes(doc: Document) {
+    // The state of the fields the current node is in, from the outermost field.
+    const fields: Array<'code' | 'result'> = []
+    const markers: Node[] = []
+
+    for (const node of collectNodes(doc.body)) {
+        if (node.nodeType == 8) {
+            // Word writes most field codes in `<!--[if supportFields]>` comments.
+            if (/^\[if supportFields\]|^\[endif\]$/.test((node as Comment).data)) {
+                markers.push(node)
+            }
+            continue
+        }
+
+        const marker = node.nodeType == 1 ? getFieldMarker(node as Element) : null
+
+        if (marker) {
+            markers.push(node)
+
+            if (marker == 'field-begin') {
+                fields.push('code')
+            } else if (marker == 'field-separator' && fields.length) {
+                fields[fields.length - 1] = 'result'
+            } else if (marker == 'field-end') {
+                fields.pop()
+            }
+        } else if (node.nodeType == 3 && fields.includes('code')) {
+            node.parentNode?.removeChild(node)
+        }
+    }
+
+    // The blocks with field markup, which are removed when nothing else is left (e.g. the paragraph with only the end
+    // of a table of contents).
+    const blocks = new Set<Element>()
+
+    for (const marker of markers) {
+        const block = marker.parentElement?.closest(FIELD_BLOCK_SELECTOR)
+        if (block) {
+            blocks.add(block)
+        }
+        marker.parentNode?.removeChild(marker)
+    }
+
+    blocks.forEach(block => {
+        if (!hasContent(block) && !block.querySelector('a[name]')) {
+            block.parentNode?.removeChild(block)
+        }
+    })
+
+    // A simple field has the code in its style and the result as content.
+    for (const field of Array.from(doc.querySelectorAll('span[style*="mso-field-code"]'))) {
+        unwrapElement(field)
+    }
+}
+
+function transformTableOfContents(doc: Document, mode: TableOfContentsMode) {
+    // The lists of the current table of contents, by level.
+    const lists: Element[] = []
+
+    for (const entry of Array.from(doc.querySelectorAll('p, div, h1, h2, h3, h4, h5, h6'))) {
+        const level = getTableOfContentsLevel(entry)
+
+        if (!level) {
+            if (mode == 'remove' && entry.classList.contains('MsoTocHeading')) {
+                entry.parentNode?.removeChild(entry)
+            }
+            continue
+        }
+
+        if (mode == 'remove') {
+            entry.parentNode?.removeChild(entry)
+            continue
+        }
+
+        // Consecutive entries form one table of contents.
+        if (!lists.length || entry.previousElementSibling !== lists[0]) {
+            lists.length = 0
+            lists.push(doc.createElement('ul'))
+            entry.parentNode?.insertBefore(lists[0]!, entry)
+        }
+
+        while (lists.length < level && lists[lists.length - 1]!.lastElementChild) {
+            const nestedList = doc.createElement('ul')
+            lists[lists.length - 1]!.lastElementChild!.appendChild(nestedList)
+            lists.push(nestedList)
+        }
+        lists.length = Math.min(lists.length, level)
+
+        const listItem = doc.createElement('li')
+        const text = getTableOfContentsEntryText(entry)
+        const href = entry.querySelector('a[href^="#"]')?.getAttribute('href')
+
+        if (href) {
+            // Links to headings which are not pasted are unwrapped with the other bookmark links.
+            const link = doc.createElement('a')
+            link.setAttribute('href', href)
+            link.textContent = text
+            listItem.appendChild(link)
+        } else {
+            listItem.textContent = text
+        }
+
+        lists[lists.length - 1]!.appendChild(listItem)
+        entry.parentNode?.removeChild(entry)
+    }
+}
+
+function removeBookmarks(doc: Document) {
+    const links = Array.from(doc.querySelectorAll('a[href^="#"]'))
+    const targets = new Set(links.map(link => link.getAttribute('href')!.substring(1)))
+    // The ids of the blocks the linked bookmarks are in, by bookmark name.
+    const ids = new Map<string, string>()
+
+    for (const bookmark of Array.from(doc.querySelectorAll('a[name]'))) {
+        if (bookmark.hasAttribute('href')) {
+            continue
+        }
+
+        const name = bookmark.getAttribute('name')!
+        const block = bookmark.closest(BOOKMARK_BLOCK_SELECTOR)
+
+        if (targets.has(name) && block) {
+            if (!block.getAttribute('id')) {
+                block.setAttribute('id', name)
+            }
+            ids.set(name, block.getAttribute('id')!)
+        }
+
+        if (bookmark.textContent || bookmark.children.length) {
+            unwrapElement(bookmark)
+        } else {
+            bookmark.parentNode?.removeChild(bookmark)
+        }
+    }
+
+    // Internal links to bookmarks which are not pasted go nowhere in the editor.
+    for (const link of links) {
+        const name = link.getAttribute('href')!.substring(1)
+        const id = ids.get(name) ?? (doc.getElementById(name) ? name : null)
+
+        if (id) {
+            link.setAttribute('href', `#${id}`)
+        } else {
+            unwrapElement(link)
+        }
+    }
+}
+
+function getTableOfContentsLevel(element: Element): number | null {
+    for (const className of Array.from(element.classList)) {
+        const match = className.match(TOC_ENTRY_CLASS_REGEX)
+
+        if (match) {
+            return parseInt(match[1]!)
+        }
+    }
+
+    return null
+}
+
+function getTableOfContentsEntryText(entry: Element): string {
+    const clone = entry.cloneNode(true) as Element
+
+    for (const element of Array.from(clone.querySelectorAll('*'))) {
+        const style = convertStyleToObject(element.getAttribute('style') || '')
+
+        if (style['display'] == 'none' || 'mso-hide' in style) {
+            element.parentNode?.removeChild(element)
+        } else if ('mso-tab-count' in style) {
+            element.parentNode?.replaceChild(clone.ownerDocument.createTextNode('\t'), element)
+        }
+    }
+
+    // The page number follows the last tab, unless it is hidden.
+    const parts = (clone.textContent || '').split('\t')
+    if (parts.length > 1 && /^\s*[\divxlcdm]*\s*$/i.test(parts[parts.length - 1]!)) {
+        parts.pop()
+    }
+
+    return parts.join(' ').replace(/\s+/g, ' ').trim()
+}
+
+function getFieldMarker(element: Element): string | null {
+    const msoElement = convertStyleToObject(element.getAttribute('style') || '')['mso-element']
+
+    return msoElement && ['field-begin', 'field-separator', 'field-end'].includes(msoElement) ? msoElement : null
+}
+
+// All descendants in document order.
+function collectNodes(root: Node, nodes: Node[] = []): Node[] {
+    for (const node of Array.from(root.childNodes)) {
+        nodes.push(node)
+        collectNodes(node, nodes)
+    }
+
+    return nodes
+}
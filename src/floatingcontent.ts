@@ -0,0 +1,238 @@
+import {convertStyleToObject} from './normalizer'
+import {hasContent} from './blockformatting'
+
+// `block` places the content of text boxes, shapes and frames as paragraphs at their anchor, `blockquote` places it
+// in a blockquote to keep it apart from the surrounding text.
+export type FloatingContentMode = 'block' | 'blockquote'
+
+const ANCHOR_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li'
+const PARAGRAPH_ELEMENTS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+const LAYOUT_TABLE_ELEMENTS = ['table', 'tbody', 'tr', 'td']
+
+// Word pastes every text box, callout and WordArt twice, once as VML shape and once as fallback (a rendered image
+// or a positioned copy of the content). Both are replaced by the content itself.
+export function transformFloatingContent(doc: Document, mode: FloatingContentMode) {
+    transformShapes(doc, mode)
+    transformFrames(doc, mode)
+
+    // The shape type definitions are only referred to by shapes.
+    for (const shapeType of Array.from(doc.getElementsByTagName('v:shapetype'))) {
+        shapeType.parentNode?.removeChild(shapeType)
+    }
+}
+
+function transformShapes(doc: Document, mode: FloatingContentMode) {
+    const fallbacks = findShapeFallbacks(doc)
+    // The content of the text boxes and WordArt, by the outermost shape (e.g. a group) they are part of.
+    const shapes = new Map<Element, Node[]>()
+
+    for (const textElement of [...Array.from(doc.getElementsByTagName('v:textbox')), ...Array.from(doc.getElementsByTagName('v:textpath'))]) {
+        const shape = findOutermostShape(textElement)
+        const content = shapes.get(shape) ?? []
+
+        shapes.set(shape, content.concat(getShapeContent(doc, textElement, fallbacks)))
+    }
+
+    shapes.forEach((content, shape) => {
+        const anchor = shape.parentElement?.closest(ANCHOR_SELECTOR) ?? null
+
+        for (const id of getShapeIds(shape)) {
+            for (const fallback of fallbacks.get(id) ?? []) {
+                const wrapper = findFallbackWrapper(fallback)
+                wrapper.parentNode?.removeChild(wrapper)
+            }
+        }
+
+        const element = createFloatingElement(doc, content, mode)
+
+        if (!anchor) {
+            shape.parentNode?.insertBefore(element, shape)
+        } else if (hasTextBefore(shape, anchor)) {
+            // A shape in the middle of the text is placed after its paragraph, Word anchors it to the whole paragraph.
+            anchor.parentNode?.insertBefore(element, anchor.nextSibling)
+        } else {
+            anchor.parentNode?.insertBefore(element, anchor)
+        }
+
+        shape.parentNode?.removeChild(shape)
+
+        if (anchor && !hasContent(anchor)) {
+            anchor.parentNode?.removeChild(anchor)
+        }
+    })
+}
+
+// Frames are positioned paragraphs, written before the paragraph they are anchored to.
+function transformFrames(doc: Document, mode: FloatingContentMode) {
+    for (const frame of Array.from(doc.querySelectorAll('div[style*="mso-element"]'))) {
+        if (convertStyleToObject(frame.getAttribute('style') || '')['mso-element'] != 'frame' || !frame.parentNode) {
+            continue
+        }
+
+        const content = Array.from(unwrapLayout(frame).childNodes)
+        const paragraph = frame.nextElementSibling
+
+        if (isDropCap(frame, content, paragraph)) {
+            paragraph!.insertBefore(doc.createTextNode(getText(content).trim()), paragraph!.firstChild)
+        } else if (getText(content).trim() || content.some(node => node.nodeType == 1 && (node as Element).querySelector('img'))) {
+            frame.parentNode.insertBefore(createFloatingElement(doc, content, mode), frame)
+        }
+
+        frame.parentNode.removeChild(frame)
+    }
+}
+
+// A drop cap is a frame with the first letter (or word) of the next paragraph, which continues without space. Word
+// sets the exact line height of the lines the drop cap spans.
+function isDropCap(frame: Element, content: Node[], paragraph: Element | null): boolean {
+    const text = getText(content).trim()
+
+    return !!paragraph && PARAGRAPH_ELEMENTS.includes(paragraph.tagName.toLowerCase()) &&
+        !!text && !/\s/.test(text) && /^\S/.test(paragraph.textContent || '') &&
+        !!frame.querySelector('[style*="mso-line-height-rule"]')
+}
+
+function getShapeContent(doc: Document, textElement: Element, fallbacks: Map<string, Element[]>): Node[] {
+    if (textElement.tagName.toLowerCase() == 'v:textpath') {
+        const text = textElement.getAttribute('string')
+
+        if (!text) {
+            return []
+        }
+
+        const paragraph = doc.createElement('p')
+        paragraph.textContent = text
+        return [paragraph]
+    }
+
+    const content = unwrapLayout(textElement)
+
+    if (content.textContent?.trim()) {
+        return Array.from(content.childNodes)
+    }
+
+    // Without content in the shape, the positioned copy of the fallback is used.
+    const shapeId = textElement.parentElement?.getAttribute('id')
+    const fallback = (shapeId && fallbacks.get(shapeId) || []).find(element => element.tagName.toLowerCase() != 'img')
+
+    return fallback ? Array.from(unwrapLayout(fallback).childNodes) : []
+}
+
+function createFloatingElement(doc: Document, content: Node[], mode: FloatingContentMode): Node {
+    if (mode == 'blockquote') {
+        const quote = doc.createElement('blockquote')
+        let hasParagraph = false
+
+        // The paragraphs are joined with line breaks, like the paragraphs in a table cell.
+        for (const node of content) {
+            if (node.nodeType == 1 && PARAGRAPH_ELEMENTS.includes((node as Element).tagName.toLowerCase())) {
+                if (hasParagraph) {
+                    quote.appendChild(doc.createElement('br'))
+                }
+                while (node.firstChild) {
+                    quote.appendChild(node.firstChild)
+                }
+                hasParagraph = true
+            } else if (node.nodeType != 3 || node.textContent?.trim()) {
+                quote.appendChild(node)
+            }
+        }
+
+        return quote
+    }
+
+    const fragment = doc.createDocumentFragment()
+    const hasBlocks = content.some(node => node.nodeType == 1 && !!(node as Element).matches('p, h1, h2, h3, h4, h5, h6, ul, ol, table, div'))
+
+    if (!hasBlocks && getText(content).trim()) {
+        // Inline content still needs a paragraph.
+        const paragraph = doc.createElement('p')
+        content.forEach(node => paragraph.appendChild(node))
+        fragment.appendChild(paragraph)
+    } else {
+        content.forEach(node => fragment.appendChild(node))
+    }
+
+    return fragment
+}
+
+// The fallback elements (images or the `div` copy of a text box) by the id of the shape they replace.
+function findShapeFallbacks(doc: Document): Map<string, Element[]> {
+    const fallbacks = new Map<string, Element[]>()
+
+    for (const element of Array.from(doc.body.querySelectorAll('*'))) {
+        const ids = (element.getAttribute('v:shapes') || element.getAttribute('v:shape') || '').split(/\s+/)
+
+        for (const id of ids.filter(id => id)) {
+            fallbacks.set(id, (fallbacks.get(id) ?? []).concat(element))
+        }
+    }
+
+    return fallbacks
+}
+
+// The shape element which is not part of another shape, like a group.
+function findOutermostShape(element: Element): Element {
+    let shape = element
+
+    while (shape.parentElement && shape.parentElement.tagName.toLowerCase().startsWith('v:')) {
+        shape = shape.parentElement
+    }
+
+    return shape
+}
+
+function getShapeIds(shape: Element): string[] {
+    return [shape, ...Array.from(shape.querySelectorAll('*'))]
+        .map(element => element.getAttribute('id'))
+        .filter((id): id is string => !!id)
+}
+
+// The positioned `<span style="mso-ignore:vglayout">` wrappers around the fallback are removed with it.
+function findFallbackWrapper(fallback: Element): Element {
+    let wrapper = fallback
+
+    for (let parent = fallback.parentElement; parent && !parent.matches(`${ANCHOR_SELECTOR}, body`); parent = parent.parentElement) {
+        if (parent.tagName.toLowerCase() == 'span' && 'mso-ignore' in convertStyleToObject(parent.getAttribute('style') || '')) {
+            wrapper = parent
+        }
+    }
+
+    return wrapper
+}
+
+// Word wraps the content of a text box or frame in a single cell layout table and a `div`.
+function unwrapLayout(element: Element): Element {
+    let content = element
+
+    while (content.children.length == 1 && LAYOUT_TABLE_ELEMENTS.includes(content.children[0]!.tagName.toLowerCase()) &&
+        !hasOwnText(content)) {
+        content = content.children[0]!
+    }
+
+    if (content.children.length == 1 && content.children[0]!.tagName.toLowerCase() == 'div' && !hasOwnText(content)) {
+        content = content.children[0]!
+    }
+
+    return content
+}
+
+function hasOwnText(element: Element): boolean {
+    return Array.from(element.childNodes).some(node => node.nodeType == 3 && !!node.textContent?.trim())
+}
+
+function hasTextBefore(node: Node, root: Element): boolean {
+    for (let current: Node | null = node; current && current !== root; current = current.parentNode) {
+        for (let sibling = current.previousSibling; sibling; sibling = sibling.previousSibling) {
+            if (sibling.textContent?.trim()) {
+                return true
+            }
+        }
+    }
+
+    return false
+}
+
+function getText(nodes: Node[]): string {
+    return nodes.map(node => node.textContent || '').join('')
+}
@@ -0,0 +1,144 @@
+import {convertStyleToObject} from './normalizer'
+
+// `list` collects the notes in one ordered list at the end, `title` puts the note text in the title of
+// the reference and `remove` drops the references and the notes.
+export type FootnotesMode = 'list' | 'title' | 'remove'
+
+const REFERENCE_HREF_REGEX = /^#_(ftn|edn)(\d+)$/i
+const BACK_REFERENCE_HREF_REGEX = /^#_(ftn|edn)ref\d+$/i
+
+export function transformFootnotes(doc: Document, mode: FootnotesMode) {
+    const notes = findNotes(doc)
+    const references = Array.from(doc.querySelectorAll('a[href]'))
+        .filter(anchor => REFERENCE_HREF_REGEX.test(anchor.getAttribute('href') || '') && !isInsideNotesList(anchor))
+        // Footnotes are numbered before the endnotes, both in order of appearance.
+        .sort((a, b) => Number(isEndnoteReference(a)) - Number(isEndnoteReference(b)))
+
+    const notesList = doc.createElement('ol')
+
+    references.forEach((reference, index) => {
+        const number = String(index + 1)
+        const note = notes.get(getNoteId(reference))
+        const {content, text} = note ? extractNoteContent(doc, note) : {content: null, text: ''}
+
+        if (mode == 'remove') {
+            reference.parentNode?.removeChild(reference)
+            return
+        }
+
+        const sup = doc.createElement('sup')
+
+        if (mode == 'title') {
+            if (text) {
+                sup.setAttribute('title', text)
+            }
+            sup.textContent = number
+        } else {
+            const link = doc.createElement('a')
+            link.setAttribute('href', `#footnote-${number}`)
+            link.setAttribute('id', `footnote-ref-${number}`)
+            link.textContent = number
+            sup.appendChild(link)
+
+            const listItem = doc.createElement('li')
+            listItem.setAttribute('id', `footnote-${number}`)
+            if (content) {
+                listItem.appendChild(content)
+            }
+            notesList.appendChild(listItem)
+        }
+
+        reference.parentNode?.replaceChild(sup, reference)
+    })
+
+    for (const container of findNotesContainers(doc)) {
+        container.parentNode?.removeChild(container)
+    }
+
+    if (notesList.children.length) {
+        notesList.classList.add('footnotes')
+        doc.body.appendChild(notesList)
+    }
+}
+
+function findNotes(doc: Document): Map<string, Element> {
+    const notes = new Map<string, Element>()
+
+    for (const element of Array.from(doc.querySelectorAll('div[style*="mso-element"]'))) {
+        const msoElement = getMsoElement(element)
+
+        if (msoElement != 'footnote' && msoElement != 'endnote') {
+            continue
+        }
+
+        // The note is identified by its own id or by the name of its back reference.
+        const backReference = element.querySelector('a[name]')
+        const id = element.getAttribute('id') || (backReference?.getAttribute('name') || '').replace(/^_/, '')
+
+        notes.set(id.toLowerCase(), element)
+    }
+
+    return notes
+}
+
+function findNotesContainers(doc: Document): Element[] {
+    return Array.from(doc.querySelectorAll('div[style*="mso-element"]')).filter(element => {
+        return ['footnote-list', 'endnote-list', 'footnote', 'endnote'].includes(getMsoElement(element))
+    })
+}
+
+// The text is read from the note itself, a DocumentFragment has no `textContent` in some DOM implementations.
+function extractNoteContent(doc: Document, note: Element): {content: DocumentFragment, text: string} {
+    const fragment = doc.createDocumentFragment()
+
+    for (const anchor of Array.from(note.querySelectorAll('a[href]'))) {
+        if (BACK_REFERENCE_HREF_REGEX.test(anchor.getAttribute('href') || '')) {
+            anchor.parentNode?.removeChild(anchor)
+        }
+    }
+
+    const paragraphs = Array.from(note.children)
+    // A single paragraph is unwrapped, so the note text directly follows the list marker.
+    const source = paragraphs.length == 1 && paragraphs[0]!.tagName.toLowerCase() == 'p' ? paragraphs[0]! : note
+
+    const text = Array.from(source.childNodes).map(node => node.textContent || '').join('').replace(/\s+/g, ' ').trim()
+
+    while (source.firstChild) {
+        fragment.appendChild(source.firstChild)
+    }
+
+    // Remove the whitespace which separated the note text from the removed back reference.
+    const firstChild = fragment.firstChild
+    if (firstChild && firstChild.nodeType == 3) {
+        firstChild.textContent = (firstChild.textContent || '').replace(/^[\s ]+/, '')
+    }
+
+    return {content: fragment, text}
+}
+
+function getNoteId(reference: Element): string {
+    const match = (reference.getAttribute('href') || '').match(REFERENCE_HREF_REGEX)!
+
+    return `${match[1]}${match[2]}`.toLowerCase()
+}
+
+function isEndnoteReference(reference: Element): boolean {
+    return getNoteId(reference).startsWith('edn')
+}
+
+function isInsideNotesList(element: Element): boolean {
+    let parent = element.parentElement
+
+    while (parent) {
+        if (['footnote', 'endnote', 'footnote-list', 'endnote-list'].includes(getMsoElement(parent))) {
+            return true
+        }
+        parent = parent.parentElement
+    }
+
+    return false
+}
+
+function getMsoElement(element: Element): string {
+    return (convertStyleToObject(element.getAttribute('style') || '')['mso-element'] || '').toLowerCase()
+}
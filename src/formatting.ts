@@ -0,0 +1,209 @@
+import {convertObjectToStyle, convertStyleToObject, unwrapElement} from './normalizer'
+
+// `keep-source` keeps the pasted formatting, `merge` only keeps semantic formatting, alignment and indentation and
+// `plain` only keeps paragraphs and lists.
+export type FormattingMode = 'keep-source' | 'merge' | 'plain'
+
+export interface FormattingOptions {
+    mode?: FormattingMode
+    // Keep the text color in `merge` mode.
+    keepTextColor?: boolean
+    // CSS properties to keep per tag name, or for every element with `*`.
+    allowedStyles?: Record<string, string[]>
+}
+
+const FORMATTING_PROPERTIES = ['font-weight', 'font-style', 'text-decoration', 'text-decoration-line', 'vertical-align']
+
+const BLOCK_FORMATTING_PROPERTIES = ['text-align', 'text-indent']
+
+const MERGE_ALLOWED_STYLES: Record<string, string[]> = {
+    ol: ['list-style-type'],
+    ul: ['list-style-type'],
+    p: BLOCK_FORMATTING_PROPERTIES,
+    h1: BLOCK_FORMATTING_PROPERTIES,
+    h2: BLOCK_FORMATTING_PROPERTIES,
+    h3: BLOCK_FORMATTING_PROPERTIES,
+    h4: BLOCK_FORMATTING_PROPERTIES,
+    h5: BLOCK_FORMATTING_PROPERTIES,
+    h6: BLOCK_FORMATTING_PROPERTIES,
+    blockquote: BLOCK_FORMATTING_PROPERTIES
+}
+
+const PLAIN_ELEMENTS = ['p', 'ul', 'ol', 'li', 'br']
+const PLAIN_BLOCK_ELEMENTS = ['div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'td', 'th', 'caption', 'dt', 'dd']
+const PLAIN_REMOVED_ELEMENTS = ['img', 'hr', 'colgroup', 'col', 'style', 'script']
+
+export function applyFormattingPolicy(doc: Document, options: FormattingOptions) {
+    const mode = options.mode ?? 'keep-source'
+
+    if (mode == 'merge') {
+        transformStyleSpansIntoElements(doc)
+    } else if (mode == 'plain') {
+        removeFormattingElements(doc)
+    }
+
+    if (mode == 'keep-source' && !options.allowedStyles) {
+        return
+    }
+
+    const allowedStyles = mergeAllowedStyles(
+        mode == 'merge' ? MERGE_ALLOWED_STYLES : {},
+        mode == 'merge' && options.keepTextColor ? {'*': ['color']} : {},
+        options.allowedStyles ?? {}
+    )
+
+    for (const element of Array.from(doc.body.querySelectorAll('[style]'))) {
+        const tagName = element.tagName.toLowerCase()
+        const allowedProperties = [...allowedStyles['*'] ?? [], ...allowedStyles[tagName] ?? []]
+        const style = convertStyleToObject(element.getAttribute('style') || '')
+
+        for (const property of Object.keys(style)) {
+            if (!allowedProperties.includes(property)) {
+                delete style[property]
+            }
+        }
+
+        const updatedStyle = convertObjectToStyle(style)
+
+        if (updatedStyle) {
+            element.setAttribute('style', updatedStyle)
+        } else {
+            element.removeAttribute('style')
+        }
+    }
+
+    if (mode != 'keep-source') {
+        // Spans and fonts without styling do not add anything anymore, except for the equations.
+        for (const element of Array.from(doc.body.querySelectorAll('span, font'))) {
+            if (!element.hasAttribute('style') && !element.hasAttribute('data-equation')) {
+                unwrapElement(element)
+            }
+        }
+    }
+}
+
+export function transformStyleSpansIntoElements(doc: Document) {
+    for (const span of Array.from(doc.querySelectorAll('span[style]'))) {
+        const style = convertStyleToObject(span.getAttribute('style') || '')
+        const tagNames = getFormattingTagNames(style)
+
+        // These properties are often written with their "normal" value as well.
+        for (const property of FORMATTING_PROPERTIES) {
+            delete style[property]
+        }
+
+        wrapChildrenInElements(doc, span, tagNames)
+
+        const updatedStyle = convertObjectToStyle(style)
+
+        if (updatedStyle) {
+            span.setAttribute('style', updatedStyle)
+        } else if (span.hasAttribute('data-equation')) {
+            span.removeAttribute('style')
+        } else {
+            unwrapElement(span)
+        }
+    }
+}
+
+// Wraps the children in nested elements, the first tag name being the outermost element.
+export function wrapChildrenInElements(doc: Document, element: Element, tagNames: string[]) {
+    if (!tagNames.length) {
+        return
+    }
+
+    const formattingElements = tagNames.map(tagName => doc.createElement(tagName))
+    const innermostElement = formattingElements.reduce((parent, child) => parent.appendChild(child))
+
+    while (element.firstChild) {
+        innermostElement.appendChild(element.firstChild)
+    }
+
+    element.appendChild(formattingElements[0]!)
+}
+
+export function getFormattingTagNames(style: Record<string, string>): string[] {
+    const tagNames: string[] = []
+    const fontWeight = style['font-weight'] ?? ''
+    const fontStyle = style['font-style'] ?? ''
+    const textDecoration = `${style['text-decoration'] ?? ''} ${style['text-decoration-line'] ?? ''}`
+    const verticalAlign = style['vertical-align'] ?? ''
+
+    if (['bold', 'bolder'].includes(fontWeight) || parseInt(fontWeight) >= 600) {
+        tagNames.push('b')
+    }
+
+    if (['italic', 'oblique'].includes(fontStyle)) {
+        tagNames.push('i')
+    }
+
+    if (textDecoration.includes('underline')) {
+        tagNames.push('u')
+    }
+
+    if (textDecoration.includes('line-through')) {
+        tagNames.push('s')
+    }
+
+    if (verticalAlign == 'super') {
+        tagNames.push('sup')
+    } else if (verticalAlign == 'sub') {
+        tagNames.push('sub')
+    }
+
+    return tagNames
+}
+
+function removeFormattingElements(doc: Document) {
+    for (const element of Array.from(doc.body.querySelectorAll('*'))) {
+        const tagName = element.tagName.toLowerCase()
+
+        if (PLAIN_REMOVED_ELEMENTS.includes(tagName)) {
+            element.parentNode?.removeChild(element)
+            continue
+        }
+
+        for (const attribute of Array.from(element.attributes)) {
+            if (!(tagName == 'ol' && attribute.name == 'start')) {
+                element.removeAttribute(attribute.name)
+            }
+        }
+
+        if (PLAIN_ELEMENTS.includes(tagName)) {
+            continue
+        }
+
+        // Blocks become paragraphs, unless they contain blocks themselves.
+        if (PLAIN_BLOCK_ELEMENTS.includes(tagName) && !element.querySelector('p, ul, ol, table, div')) {
+            renameElement(doc, element, 'p')
+        } else {
+            unwrapElement(element)
+        }
+    }
+}
+
+export function renameElement(doc: Document, element: Element, tagName: string) {
+    const renamedElement = doc.createElement(tagName)
+
+    for (const attribute of Array.from(element.attributes)) {
+        renamedElement.setAttribute(attribute.name, attribute.value)
+    }
+
+    while (element.firstChild) {
+        renamedElement.appendChild(element.firstChild)
+    }
+
+    element.parentNode?.replaceChild(renamedElement, element)
+}
+
+function mergeAllowedStyles(...allowedStylesList: Record<string, string[]>[]): Record<string, string[]> {
+    const result: Record<string, string[]> = {}
+
+    for (const allowedStyles of allowedStylesList) {
+        for (const tagName of Object.keys(allowedStyles)) {
+            result[tagName] = [...result[tagName] ?? [], ...allowedStyles[tagName]!]
+        }
+    }
+
+    return result
+}
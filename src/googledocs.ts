@@ -0,0 +1,149 @@
+import {convertStyleToObject, createNewEmptyList, isList, parseDocument, unwrapElement} from './normalizer'
+import {transformStyleSpansIntoElements} from './formatting'
+import {StepNormalizer} from './stepnormalizer'
+import type {NormalizerOptions, NormalizerResult} from './types'
+
+const GOOGLE_DOCS_MATCH = /id=("|')?docs-internal-guid-/i
+
+export class GoogleDocsNormalizer extends StepNormalizer {
+    constructor(options: NormalizerOptions = {}) {
+        super(options)
+        this.setSteps([
+            {name: 'removeGuidWrapper', run: doc => this.removeGuidWrapper(doc)},
+            {name: 'removeInterchangeNewlines', run: doc => this.removeInterchangeNewlines(doc)},
+            {name: 'transformStyleSpansIntoElements', run: doc => transformStyleSpansIntoElements(doc)},
+            {name: 'transformListItemsIntoNestedLists', run: doc => this.transformListItemsIntoNestedLists(doc)}
+        ])
+    }
+
+    public isActive(htmlString: string): boolean {
+        return GOOGLE_DOCS_MATCH.test(htmlString)
+    }
+
+    protected normalizeDocument(htmlString: string, options: NormalizerOptions, result: NormalizerResult): Document {
+        const doc = parseDocument(this.createDomParser(), htmlString)
+        this.runSteps(doc, {stylesString: '', options, result})
+        return doc
+    }
+
+    private removeGuidWrapper(doc: Document) {
+        // Google Docs wraps the whole clipboard content in a <b style="font-weight:normal"> element.
+        for (const wrapper of Array.from(doc.querySelectorAll('b[id^="docs-internal-guid-"]'))) {
+            unwrapElement(wrapper)
+        }
+    }
+
+    private removeInterchangeNewlines(doc: Document) {
+        for (const br of Array.from(doc.querySelectorAll('br.Apple-interchange-newline'))) {
+            br.parentNode?.removeChild(br)
+        }
+    }
+
+    private transformListItemsIntoNestedLists(doc: Document) {
+        // Docs puts nested lists directly inside their parent list instead of inside the list item, and
+        // only marks the real nesting with `aria-level` on every item.
+        const rootLists = Array.from(doc.querySelectorAll('ul, ol')).filter(list => !list.parentElement?.closest('ul, ol'))
+
+        for (const rootList of rootLists) {
+            const originalLists = [rootList, ...Array.from(rootList.querySelectorAll('ul, ol'))]
+            const listItems = Array.from(rootList.querySelectorAll('li'))
+            const parent = rootList.parentNode!
+
+            const stack: Array<{
+                listElement: Element
+                listItemElements: Array<Element>
+            }> = []
+
+            for (const listItem of listItems) {
+                const originalList = listItem.parentElement!
+                const itemStyle = convertStyleToObject(listItem.getAttribute('style') || '')
+                const type = originalList.tagName.toLowerCase()
+
+                // Normalized list item indentation.
+                const indent = Math.min(getListItemLevel(listItem, itemStyle, originalLists) - 1, stack.length)
+
+                // Trimming of the list stack on lower indent list encountered.
+                if (indent < stack.length - 1) {
+                    stack.length = indent + 1
+                }
+
+                // Create a new OL/UL if required (greater indent or different list type).
+                if (indent > stack.length - 1 || stack[indent]?.listElement.tagName.toLowerCase() != type) {
+                    stack.length = indent
+
+                    const startIndex = parseInt(originalList.getAttribute('start') || '')
+                    const listElement = createNewEmptyList(doc, {
+                        type,
+                        startIndex: isNaN(startIndex) ? null : startIndex,
+                        style: getListStyleType(type, itemStyle),
+                        isLegalStyleList: false
+                    }, false)
+
+                    // Insert the new OL/UL.
+                    if (indent == 0) {
+                        parent.insertBefore(listElement, rootList)
+                    } else {
+                        const parentListItems = stack[indent - 1]?.listItemElements
+
+                        if (parentListItems) {
+                            parentListItems[parentListItems.length - 1]?.appendChild(listElement)
+                        }
+                    }
+
+                    stack[indent] = {
+                        listElement,
+                        listItemElements: []
+                    }
+                }
+
+                // Append the LI to OL/UL.
+                stack[indent]?.listElement.appendChild(listItem)
+                stack[indent]?.listItemElements.push(listItem)
+            }
+
+            // All items have been moved, only the empty Docs lists are left behind.
+            for (const originalList of originalLists) {
+                originalList.parentNode?.removeChild(originalList)
+            }
+        }
+    }
+}
+
+function getListItemLevel(listItem: Element, style: Record<string, string>, originalLists: Element[]): number {
+    const ariaLevel = parseInt(listItem.getAttribute('aria-level') || '')
+
+    if (!isNaN(ariaLevel) && ariaLevel > 0) {
+        return ariaLevel
+    }
+
+    // Older Docs versions only indent the items, 36pt per level.
+    const marginLeft = parseFloat(style['margin-left'] ?? '')
+
+    if (!isNaN(marginLeft) && marginLeft > 0) {
+        return Math.max(Math.round(marginLeft / 36), 1)
+    }
+
+    // Fall back to the depth of the original (invalid) list nesting.
+    let level = 0
+    let element: Element | null = listItem.parentElement
+
+    while (element && originalLists.includes(element)) {
+        if (isList(element)) {
+            level++
+        }
+        element = element.parentElement
+    }
+
+    return Math.max(level, 1)
+}
+
+function getListStyleType(type: string, style: Record<string, string>): string | null {
+    const listStyleType = style['list-style-type']
+
+    // The default marker does not need to be set on the list.
+    if (!listStyleType || (type == 'ol' && listStyleType == 'decimal') || (type == 'ul' && listStyleType == 'disc')) {
+        return null
+    }
+
+    return listStyleType
+}
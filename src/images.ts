@@ -0,0 +1,168 @@
+import {parseDocument} from './normalizer'
+import type {NormalizerReport} from './types'
+
+export interface RtfImage {
+    hex: string
+    type: string
+}
+
+export interface RtfImageOptions {
+    // Stores the image somewhere else and returns its url, by default the image is inlined as a data URI.
+    uploadImage?: (image: Blob) => Promise<string>
+}
+
+// The picture types the browser can display, Word also pastes enhanced metafiles (`image/emf`) e.g. for charts.
+const BROWSER_IMAGE_TYPES = ['image/png', 'image/jpeg']
+
+const PICTURE_HEADER_REGEX = /{\\pict[\s\S]+?\\bliptag-?\d+(\\blipupi-?\d+)?({\\\*\\blipuid\s?[\da-fA-F]+)?[\s}]*?/
+const PICTURE_REGEX = new RegExp('(?:(' + PICTURE_HEADER_REGEX.source + '))([\\da-fA-F\\s]+)\\}', 'g')
+
+export function extractImageDataFromRtf(rtfString: string): RtfImage[] {
+    if (!rtfString) {
+        return []
+    }
+
+    const pictures = rtfString.match(PICTURE_REGEX) || []
+    const result: RtfImage[] = []
+
+    for (const picture of pictures) {
+        const type = getPictureType(picture)
+
+        if (type) {
+            result.push({
+                hex: picture.replace(PICTURE_HEADER_REGEX, '').replace(/[^\da-fA-F]/g, ''),
+                type
+            })
+        }
+    }
+
+    return result
+}
+
+export async function replaceLocalImageSources(
+    htmlString: string,
+    rtfString: string,
+    options: RtfImageOptions = {},
+    domParser: Pick<DOMParser, 'parseFromString'> = new DOMParser(),
+    report?: NormalizerReport
+): Promise<string> {
+    const doc = parseDocument(domParser, htmlString)
+    const images = Array.from(doc.querySelectorAll('img')).filter(image => isLocalFileSource(image.getAttribute('src')))
+    const rtfImages = extractImageDataFromRtf(rtfString)
+
+    if (!images.length) {
+        return htmlString
+    }
+
+    // The images can only be matched by their order, which is not reliable when the amounts differ.
+    if (images.length !== rtfImages.length) {
+        if (report) {
+            report.imageCountMismatch = {images: images.length, pictures: rtfImages.length}
+        }
+        return htmlString
+    }
+
+    await Promise.all(images.map(async (image, index) => {
+        const rtfImage = rtfImages[index]!
+
+        // The image keeps its local source, so it is still reported as unresolved.
+        if (!BROWSER_IMAGE_TYPES.includes(rtfImage.type)) {
+            report?.unsupportedImages.push(rtfImage.type)
+            return
+        }
+
+        const src = options.uploadImage ?
+            await options.uploadImage(new Blob([convertHexToBytes(rtfImage.hex)], {type: rtfImage.type})) :
+            `data:${rtfImage.type};base64,${convertHexToBase64(rtfImage.hex)}`
+
+        image.setAttribute('src', src)
+    }))
+
+    if (report) {
+        report.unresolvedImages = []
+        reportUnresolvedImages(doc, report)
+    }
+
+    return doc.body.innerHTML
+}
+
+// Word pastes every image twice, once as VML shape and once as <img> fallback referring to the shape.
+export function convertShapesToImages(doc: Document, report?: NormalizerReport) {
+    // The ids of the shapes which have a fallback image.
+    const fallbackShapeIds = new Set<string>()
+    for (const image of Array.from(doc.querySelectorAll('img'))) {
+        (image.getAttribute('v:shapes') || '').split(/\s+/).forEach(id => fallbackShapeIds.add(id))
+    }
+
+    for (const shape of Array.from(doc.getElementsByTagName('v:shape'))) {
+        const imageData = shape.getElementsByTagName('v:imagedata')[0]
+
+        if (!imageData) {
+            report?.skippedShapes.push({id: shape.getAttribute('id'), type: shape.getAttribute('type')})
+            continue
+        }
+
+        const shapeId = shape.getAttribute('id')
+        const hasFallbackImage = !!shapeId && fallbackShapeIds.has(shapeId)
+
+        if (!hasFallbackImage) {
+            const image = doc.createElement('img')
+            image.setAttribute('src', imageData.getAttribute('src') || '')
+
+            const alt = imageData.getAttribute('o:title') || shape.getAttribute('alt')
+            if (alt) {
+                image.setAttribute('alt', alt)
+            }
+
+            shape.parentNode?.insertBefore(image, shape)
+        }
+
+        shape.parentNode?.removeChild(shape)
+    }
+}
+
+export function reportUnresolvedImages(doc: Document, report: NormalizerReport) {
+    for (const image of Array.from(doc.querySelectorAll('img'))) {
+        const src = image.getAttribute('src')
+
+        if (isLocalFileSource(src)) {
+            report.unresolvedImages.push(src!)
+        }
+    }
+}
+
+export function isLocalFileSource(src: string | null): boolean {
+    return /^file:\/\//i.test(src || '')
+}
+
+function getPictureType(picture: string): string | null {
+    if (picture.includes('\\pngblip')) {
+        return 'image/png'
+    } else if (picture.includes('\\jpegblip')) {
+        return 'image/jpeg'
+    } else if (picture.includes('\\emfblip')) {
+        return 'image/emf'
+    }
+
+    return null
+}
+
+function convertHexToBytes(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2)
+
+    for (let index = 0; index < bytes.length; index++) {
+        bytes[index] = parseInt(hex.substr(index * 2, 2), 16)
+    }
+
+    return bytes
+}
+
+export function convertHexToBase64(hex: string): string {
+    let binary = ''
+
+    for (const byte of convertHexToBytes(hex)) {
+        binary += String.fromCharCode(byte)
+    }
+
+    return btoa(binary)
+}
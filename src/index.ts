@@ -1,3 +1,46 @@
 import {MSWordNormalizer} from './normalizer'
+import {GoogleDocsNormalizer} from './googledocs'
+import {ExcelNormalizer} from './excel'
+import {PasteNormalizerPipeline} from './pipeline'
+import {StepNormalizer} from './stepnormalizer'
+import {extractImageDataFromRtf, replaceLocalImageSources} from './images'
+import {convertRtfToHtml} from './rtf'
 
-export {MSWordNormalizer}
\ No newline at end of file
+export type {
+    PasteNormalizer,
+    PasteTransform,
+    NormalizerStep,
+    NormalizerStepContext,
+    NormalizerOptions,
+    NormalizerResult,
+    NormalizerReport,
+    NormalizerReportImageCount,
+    NormalizerReportList,
+    NormalizerReportShape,
+    NormalizerComment,
+    DomAdapter
+} from './types'
+export type {PasteNormalizerPipelineOptions} from './pipeline'
+export type {RtfImage, RtfImageOptions} from './images'
+export type {MSWordNormalizerOptions} from './normalizer'
+export type {FootnotesMode} from './footnotes'
+export type {TableOfContentsMode} from './fields'
+export type {FloatingContentMode} from './floatingcontent'
+export type {EquationFormat} from './equations'
+export type {CommentsMode, RevisionsMode} from './revisions'
+export type {FormattingMode, FormattingOptions} from './formatting'
+export type {BlockFormattingOptions, BreakMarker, BreakType} from './blockformatting'
+export type {ParagraphStyleElement, ParagraphStyleMap} from './paragraphstyles'
+export type {
+    ElementFormatType,
+    SerializedElementNode,
+    SerializedHeadingNode,
+    SerializedLexicalNode,
+    SerializedLinkNode,
+    SerializedListItemNode,
+    SerializedListNode,
+    SerializedParagraphNode,
+    SerializedTableCellNode,
+    SerializedTextNode
+} from './serializednodes'
+export {MSWordNormalizer, GoogleDocsNormalizer, ExcelNormalizer, PasteNormalizerPipeline, StepNormalizer, extractImageDataFromRtf, replaceLocalImageSources, convertRtfToHtml}
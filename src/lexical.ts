@@ -0,0 +1,60 @@
+import {$getSelection, COMMAND_PRIORITY_CRITICAL, type CommandListenerPriority, type LexicalEditor, PASTE_COMMAND} from 'lexical'
+import {objectKlassEquals} from '@lexical/utils'
+import {$insertDataTransferForRichText} from '@lexical/clipboard'
+import {MSWordNormalizer} from './normalizer'
+import {convertRtfToHtml} from './rtf'
+import type {PasteNormalizer} from './types'
+
+export interface PasteFromWordOptions {
+    // Defaults to the MSWordNormalizer, pass a PasteNormalizerPipeline to handle more sources.
+    normalizer?: PasteNormalizer
+    priority?: CommandListenerPriority
+    // Converts the RTF of a paste without html, e.g. from WordPad. Enabled by default.
+    rtf?: boolean
+}
+
+export function registerPasteFromWord(editor: LexicalEditor, options: PasteFromWordOptions = {}): () => void {
+    const normalizer = options.normalizer ?? new MSWordNormalizer()
+
+    return editor.registerCommand(
+        PASTE_COMMAND,
+        (event) => {
+            const clipboardData = objectKlassEquals(event, ClipboardEvent) ? (event as ClipboardEvent).clipboardData : null
+
+            if (!clipboardData) {
+                return false
+            }
+
+            const htmlString = clipboardData.getData('text/html')
+            const rtfString = !htmlString && options.rtf !== false ? clipboardData.getData('text/rtf') : ''
+
+            // Let Lexical handle everything that is not pasted from a supported source.
+            if (!rtfString && (!htmlString || !normalizer.isActive(htmlString))) {
+                return false
+            }
+
+            event.preventDefault()
+            editor.update(
+                () => {
+                    const selection = $getSelection()
+
+                    if (selection === null) {
+                        return
+                    }
+
+                    const dataTransfer = new DataTransfer()
+                    dataTransfer.setData('text/plain', clipboardData.getData('text/plain'))
+                    dataTransfer.setData('text/html', rtfString ? convertRtfToHtml(rtfString) : normalizer.normalize(htmlString))
+
+                    $insertDataTransferForRichText(dataTransfer, selection, editor)
+                },
+                {
+                    tag: 'paste'
+                }
+            )
+
+            return true
+        },
+        options.priority ?? COMMAND_PRIORITY_CRITICAL
+    )
+}
@@ -0,0 +1,140 @@
+// The Word list definitions of the `@list lN:levelM` rules in the stylesheet of the pasted content.
+export interface ListLevelDefinition {
+    // The `mso-level-number-format`, e.g. `alpha-lower` or `bullet`. Not set for decimal lists.
+    numberFormat: string | null
+    startAt: number | null
+    // The `mso-level-text` without quotes and escapes, e.g. `%1.%2.` or the bullet character.
+    levelText: string | null
+}
+
+export interface ListDefinition {
+    levels: Record<number, ListLevelDefinition>
+    // Legal lists number all levels as `1.1.1` and have no number format.
+    isLegalStyleList: boolean
+}
+
+const LIST_RULE_REGEX = /@list\s+l(\d+):level(\d+)\s*\{([^}]*)\}/gi
+
+// Parses all list definitions at once, by list id.
+export function parseListDefinitions(stylesString: string): Record<string, ListDefinition> {
+    const definitions: Record<string, ListDefinition> = {}
+    const hasNumberFormat: Record<string, boolean> = {}
+    const hasLegalLevelText: Record<string, boolean> = {}
+    let ruleMatch
+
+    LIST_RULE_REGEX.lastIndex = 0
+
+    while ((ruleMatch = LIST_RULE_REGEX.exec(stylesString)) !== null) {
+        const id = ruleMatch[1]!
+        const declarations = parseDeclarations(ruleMatch[3]!)
+        const levelText = declarations['mso-level-text']
+        const startAt = parseInt(declarations['mso-level-start-at'] ?? '')
+
+        const definition = definitions[id] = definitions[id] ?? {levels: {}, isLegalStyleList: false}
+
+        // A later rule for the same level does not override the first one.
+        if (!definition.levels[parseInt(ruleMatch[2]!)]) {
+            definition.levels[parseInt(ruleMatch[2]!)] = {
+                numberFormat: declarations['mso-level-number-format'] || null,
+                startAt: isNaN(startAt) ? null : startAt,
+                levelText: levelText !== undefined ? unescapeLevelText(levelText) : null
+            }
+        }
+
+        hasNumberFormat[id] = hasNumberFormat[id] || 'mso-level-number-format' in declarations
+        // The dots in the level text are escaped, e.g. `"%1\.%2\."`.
+        hasLegalLevelText[id] = hasLegalLevelText[id] || /^"%\d\\./.test(levelText ?? '')
+    }
+
+    for (const id of Object.keys(definitions)) {
+        definitions[id]!.isLegalStyleList = !!hasLegalLevelText[id] && !hasNumberFormat[id]
+    }
+
+    return definitions
+}
+
+function parseDeclarations(block: string): Record<string, string> {
+    const declarations: Record<string, string> = {}
+
+    for (const declaration of block.split(';')) {
+        const colonIndex = declaration.indexOf(':')
+
+        if (colonIndex > 0) {
+            declarations[declaration.substring(0, colonIndex).trim().toLowerCase()] = declaration.substring(colonIndex + 1).trim()
+        }
+    }
+
+    return declarations
+}
+
+function unescapeLevelText(levelText: string): string {
+    return levelText
+        .replace(/^"|"$/g, '')
+        .replace(/\\([\da-f]{1,6})\s?|\\(.)/gi, (match, code, character) => {
+            return code ? String.fromCodePoint(parseInt(code, 16)) : character
+        })
+}
+
+// The numbering text of a list item, e.g. `1.2.3` or `Article IV`, from the numbers of the item and its parents.
+export function formatListMarker(definition: ListDefinition | undefined, numbers: number[], level: number): string {
+    const levelText = definition?.levels[level]?.levelText ?? `%${level}.`
+
+    return levelText.replace(/%(\d)/g, (match, referencedLevel) => {
+        const levelDefinition = definition?.levels[parseInt(referencedLevel)]
+        const number = numbers[parseInt(referencedLevel) - 1] ?? levelDefinition?.startAt ?? 1
+
+        // Legal lists number all levels with decimals.
+        return formatNumber(number, definition?.isLegalStyleList ? null : levelDefinition?.numberFormat ?? null)
+    })
+}
+
+function formatNumber(number: number, numberFormat: string | null): string {
+    if (numberFormat?.startsWith('arabic-leading-zero')) {
+        return number < 10 ? `0${number}` : number.toString()
+    }
+
+    switch (numberFormat) {
+        case 'alpha-lower':
+            return formatAlpha(number).toLowerCase()
+        case 'alpha-upper':
+            return formatAlpha(number)
+        case 'roman-lower':
+            return formatRoman(number).toLowerCase()
+        case 'roman-upper':
+            return formatRoman(number)
+        case 'none':
+            return ''
+        default:
+            return number.toString()
+    }
+}
+
+// Word repeats the letter after z: aa, bb, cc.
+function formatAlpha(number: number): string {
+    if (number < 1) {
+        return number.toString()
+    }
+
+    return String.fromCharCode(65 + (number - 1) % 26).repeat(Math.ceil(number / 26))
+}
+
+function formatRoman(number: number): string {
+    const numerals: Array<[number, string]> = [
+        [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+        [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+    ]
+    let result = ''
+
+    if (number < 1) {
+        return number.toString()
+    }
+
+    for (const [value, numeral] of numerals) {
+        while (number >= value) {
+            result += numeral
+            number -= value
+        }
+    }
+
+    return result
+}
@@ -1,32 +1,164 @@
+import {StepNormalizer} from './stepnormalizer'
+import {isExcelHtml} from './excel'
+import type {NormalizerOptions, NormalizerReport, NormalizerResult} from './types'
+import {normalizeTables} from './tables'
+import {transformFootnotes, type FootnotesMode} from './footnotes'
+import {transformFields, type TableOfContentsMode} from './fields'
+import {transformSymbolFonts} from './symbolfonts'
+import {transformFloatingContent, type FloatingContentMode} from './floatingcontent'
+import {transformEquations, type EquationFormat} from './equations'
+import {transformBlockFormatting, type BlockFormattingOptions} from './blockformatting'
+import {formatListMarker, parseListDefinitions, type ListDefinition} from './listdefinitions'
+import {applyFormattingPolicy, type FormattingOptions} from './formatting'
+import {transformParagraphStyles, type ParagraphStyleMap} from './paragraphstyles'
+import {transformComments, transformRevisions, type CommentsMode, type RevisionsMode} from './revisions'
+import {convertShapesToImages, replaceLocalImageSources, reportUnresolvedImages, type RtfImageOptions} from './images'
+
 const MS_WORD_MATCHES = [
     /<meta\s*name="?generator"?\s*content="?microsoft\s*word\s*\d+"?\/?>/i,
     /xmlns:o="urn:schemas-microsoft-com/i
 ]
 
-export class MSWordNormalizer {
+export interface MSWordNormalizerOptions extends NormalizerOptions, FormattingOptions, BlockFormattingOptions {
+    footnotes?: FootnotesMode
+    // Overrides or extends the elements the Word paragraph styles are converted into.
+    styleMap?: ParagraphStyleMap
+    revisions?: RevisionsMode
+    comments?: CommentsMode
+    tableOfContents?: TableOfContentsMode
+    // Adds the `legal-list` class to legal lists and the value and numbering text (e.g. `1.2.3` or `Article IV`) of
+    // every numbered list item as `value` and `data-marker` attribute.
+    multiLevelLists?: boolean
+    floatingContent?: FloatingContentMode
+    equations?: EquationFormat
+}
+
+export class MSWordNormalizer extends StepNormalizer<MSWordNormalizerOptions> {
+    constructor(options: MSWordNormalizerOptions = {}) {
+        super(options)
+        this.setSteps([
+            {
+                name: 'transformRevisions',
+                run: (doc, {options}) => transformRevisions(doc, options.revisions ?? 'acceptAll')
+            },
+            {
+                name: 'transformComments',
+                run: (doc, {options, result}) => transformComments(doc, options.comments ?? 'remove', result.comments)
+            },
+            {
+                name: 'transformFloatingContent',
+                run: (doc, {options}) => transformFloatingContent(doc, options.floatingContent ?? 'block')
+            },
+            {
+                name: 'transformEquations',
+                run: (doc, {options}) => transformEquations(doc, options.equations ?? 'latex')
+            },
+            {
+                name: 'transformListItemLikeLElementsIntoLists',
+                run: (doc, {stylesString, options, result}) => {
+                    this.transformListItemLikeLElementsIntoLists(doc, stylesString, !!options.multiLevelLists, result.report)
+                }
+            },
+            {
+                name: 'transformSymbolFonts',
+                run: doc => transformSymbolFonts(doc)
+            },
+            {
+                name: 'transformParagraphStyles',
+                run: (doc, {stylesString, options}) => transformParagraphStyles(doc, stylesString, options.styleMap)
+            },
+            {
+                name: 'convertShapesToImages',
+                run: (doc, {result}) => convertShapesToImages(doc, result.report)
+            },
+            {
+                name: 'normalizeTables',
+                run: doc => normalizeTables(doc)
+            },
+            {
+                name: 'transformFootnotes',
+                run: (doc, {options}) => transformFootnotes(doc, options.footnotes ?? 'list')
+            },
+            {
+                name: 'transformFields',
+                run: (doc, {options}) => transformFields(doc, options.tableOfContents ?? 'list')
+            },
+            {
+                name: 'transformBlockFormatting',
+                run: (doc, {options}) => transformBlockFormatting(doc, options)
+            },
+            {
+                name: 'removeMSAttributes',
+                run: (doc, {result}) => this.removeMSAttributes(doc, result.report)
+            },
+            {
+                name: 'applyFormattingPolicy',
+                run: (doc, {options}) => applyFormattingPolicy(doc, options)
+            }
+        ])
+    }
+
     public isActive(htmlString: string): boolean {
-        return MS_WORD_MATCHES.some(regex => regex.test(htmlString))
+        return MS_WORD_MATCHES.some(regex => regex.test(htmlString)) && !isExcelHtml(htmlString)
     }
 
-    public normalize(htmlString: string): string {
-        const {bodyString, stylesString} = parseHtml(htmlString)
-        const doc = new DOMParser().parseFromString(bodyString, 'text/html')
-        this.transformListItemLikeLElementsIntoLists(doc, stylesString)
-        this.removeMSAttributes(doc)
-        return doc.body.innerHTML
+    protected normalizeDocument(htmlString: string, options: MSWordNormalizerOptions, result: NormalizerResult): Document {
+        const domParser = this.createDomParser()
+        const {bodyString, stylesString} = parseHtml(htmlString, domParser)
+        const doc = parseDocument(domParser, bodyString)
+        this.runSteps(doc, {stylesString, options, result})
+        reportUnresolvedImages(doc, result.report)
+        return doc
     }
 
-    private findAllItemLikeElements(doc: Document): ListLikeElement[] {
-        const items = doc.querySelectorAll('*')
-        const res: ListLikeElement[] = []
-        for (const item of items) {
+    // Resolves the local `file:///` images using the pictures in the `text/rtf` clipboard data.
+    public async normalizeWithRtf(
+        htmlString: string,
+        rtfString: string,
+        imageOptions: RtfImageOptions = {},
+        options: Partial<MSWordNormalizerOptions> = {}
+    ): Promise<string> {
+        return (await this.normalizeWithRtfAndReport(htmlString, rtfString, imageOptions, options)).html
+    }
+
+    // Also reports the images which could not be resolved, like enhanced metafiles or images without picture.
+    public async normalizeWithRtfAndReport(
+        htmlString: string,
+        rtfString: string,
+        imageOptions: RtfImageOptions = {},
+        options: Partial<MSWordNormalizerOptions> = {}
+    ): Promise<{html: string, report: NormalizerReport}> {
+        const {html, report} = this.normalizeWithReport(htmlString, options)
+
+        return {html: await replaceLocalImageSources(html, rtfString, imageOptions, this.createDomParser(), report), report}
+    }
+
+    // Collects the list items and their markers in one traversal.
+    private findAllItemLikeElements(doc: Document): {items: ListLikeElement[], markers: Element[]} {
+        const items: ListLikeElement[] = []
+        const markers: Element[] = []
+
+        for (const item of Array.from(doc.querySelectorAll('*'))) {
             const tagName = item.tagName.toLowerCase()
+            const styleString = item.getAttribute('style')
+
+            if (!styleString || !styleString.includes('mso-list')) {
+                continue
+            }
+
+            if (tagName == 'span') {
+                if (styleString.includes('mso-list:Ignore')) {
+                    markers.push(item)
+                }
+                continue
+            }
+
             // Find all the possible list items
-            if (!['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'div'].includes(tagName) || !(item instanceof HTMLElement)) {
+            if (!['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'div'].includes(tagName)) {
                 continue
             }
 
-            const style = convertStyleToObject(item.getAttribute('style') || '')
+            const style = convertStyleToObject(styleString)
 
             // Keep items that are part of a list.
             if ('mso-list' in style) {
@@ -36,24 +168,31 @@ export class MSWordNormalizer {
 
                 const itemData = getListItemData(style)
 
-                res.push({
+                items.push({
                     ...itemData,
                     element: item
                 })
             }
         }
 
-        return res
+        return {items, markers}
     }
 
-
-    private transformListItemLikeLElementsIntoLists(doc: Document, stylesString: string) {
-        const itemLikeElements = this.findAllItemLikeElements(doc)
+    private transformListItemLikeLElementsIntoLists(
+        doc: Document,
+        stylesString: string,
+        multiLevelLists: boolean,
+        report: NormalizerReport
+    ) {
+        const {items: itemLikeElements, markers} = this.findAllItemLikeElements(doc)
         if (!itemLikeElements.length) {
             return
         }
 
-        const encounteredLists: Record<string, number> = {}
+        const listDefinitions = parseListDefinitions(stylesString)
+
+        // The numbers of the items per list (`lfo`), by level. An interrupted list continues with the next number.
+        const counters: Record<string, number[]> = {}
 
         const stack: Array<ListLikeElement & {
             listElement: Element
@@ -66,14 +205,13 @@ export class MSWordNormalizer {
                 if ( !isListContinuation( itemLikeElement ) ) {
                     stack.length = 0;
                 }
-                // Combined list ID for addressing encounter lists counters.
-                const originalListId = `${ itemLikeElement.id }:${ itemLikeElement.indent }`
+                const value = countListItem( itemLikeElement, listDefinitions, counters )
 
                 // Normalized list item indentation.
                 const indent = Math.min( itemLikeElement.indent - 1, stack.length )
 
-                // Trimming of the list stack on list ID change.
-                if ( indent < stack.length && stack[ indent ]?.id !== itemLikeElement.id ) {
+                // Trimming of the list stack on list ID change, or on a restarted list (a new `lfo`) with the same ID.
+                if ( indent < stack.length && ( stack[ indent ]?.id !== itemLikeElement.id || stack[ indent ]?.order !== itemLikeElement.order ) ) {
                     stack.length = indent
                 }
 
@@ -81,26 +219,25 @@ export class MSWordNormalizer {
                 if ( indent < stack.length - 1 ) {
                     stack.length = indent + 1
                 } else {
-                    const listStyle = detectListStyle( itemLikeElement, stylesString )
+                    const listStyle = detectListStyle( itemLikeElement, listDefinitions, report )
                     // Create a new OL/UL if required (greater indent or different list type).
                     if ( indent > stack.length - 1 || stack[ indent ]?.listElement.tagName.toLowerCase() != listStyle.type ) {
-                        if (
-                            indent == 0 &&
-                            listStyle.type == 'ol' &&
-                            itemLikeElement.id !== undefined &&
-                            encounteredLists[ originalListId ]
-                        ) {
-                            listStyle.startIndex = encounteredLists[ originalListId ] ?? null
+                        if ( listStyle.type == 'ol' && value !== null ) {
+                            listStyle.startIndex = value
                         }
 
-                        const listElement = createNewEmptyList( listStyle, false )
+                        const listElement = createNewEmptyList( doc, listStyle, multiLevelLists )
+                        report.lists.push({
+                            id: itemLikeElement.id ?? null,
+                            order: itemLikeElement.order ?? null,
+                            level: itemLikeElement.indent
+                        })
 
                         // Insert the new OL/UL.
                         if ( stack.length == 0 ) {
                             const parent = itemLikeElement.element.parentNode!
-                            const index = Array.from(parent.children).indexOf(itemLikeElement.element) + 1
 
-                            if (index === parent.children.length) {
+                            if (!itemLikeElement.element.nextElementSibling) {
                                 parent.appendChild(listElement)
                             } else {
                                 parent.insertBefore(listElement, itemLikeElement.element)
@@ -119,37 +256,40 @@ export class MSWordNormalizer {
                             listElement,
                             listItemElements: []
                         }
-
-                        // Prepare list counter for start index.
-                        if ( indent == 0 && itemLikeElement.id !== undefined ) {
-                            encounteredLists[ originalListId ] = listStyle.startIndex || 1
-                        }
                     }
                 }
 
                 // Use LI if it is already it or create a new LI element.
-                const listItem = itemLikeElement.element.tagName.toLowerCase() == 'li' ? itemLikeElement.element : document.createElement( 'li' )
+                const listItem = itemLikeElement.element.tagName.toLowerCase() == 'li' ? itemLikeElement.element : doc.createElement( 'li' )
 
                 // Append the LI to OL/UL.
                 stack[indent]?.listElement.appendChild(listItem)
                 stack[indent]?.listItemElements.push(listItem)
 
-                // Increment list counter.
-                if ( indent == 0 && itemLikeElement.id !== undefined ) {
-                    encounteredLists[ originalListId ]++
+                // Keep the numbering text, which is lost in the list markup.
+                if ( multiLevelLists && value !== null && stack[ indent ]?.listElement.tagName.toLowerCase() == 'ol' ) {
+                    listItem.setAttribute( 'value', value.toString() )
+                    listItem.setAttribute( 'data-marker', formatListMarker(
+                        listDefinitions[ itemLikeElement.id! ],
+                        counters[ `${ itemLikeElement.id }:${ itemLikeElement.order }` ]!,
+                        itemLikeElement.indent
+                    ) )
                 }
 
                 // Append list block to LI.
                 if ( itemLikeElement.element != listItem ) {
                     listItem.appendChild(itemLikeElement.element)
                 }
-                // Clean list block.
-                removeMsoListIgnoreSpans( itemLikeElement.element )
             }
         }
+
+        // Clean list blocks.
+        removeMsoListIgnoreSpans( markers, new Set( itemLikeElements.map( item => item.element ) ) )
     }
 
-    private removeMSAttributes(doc: Document) {
+    // Runs its own traversal after the other steps: the paragraph styles still need the Mso classes, and the steps in
+    // between copy the attributes to the elements they create.
+    private removeMSAttributes(doc: Document, report: NormalizerReport) {
         const items = doc.querySelectorAll('*')
 
         const elementsToUnwrap: Element[] = []
@@ -163,9 +303,7 @@ export class MSWordNormalizer {
             }
 
             // Eliminate all useless mso styling
-            if (item instanceof HTMLElement) {
-                removeMSOStyles(item)
-            }
+            removeMSOStyles(item)
 
             // Push word specific elements to an array
             if (item.tagName === 'W:SDT' || item.tagName === 'W:SDTPR' && isElementEmpty(item) || item.tagName === 'O:P' && isElementEmpty(item)) {
@@ -177,6 +315,9 @@ export class MSWordNormalizer {
         for (const item of elementsToUnwrap) {
             const itemParent = item.parentNode!
             itemParent.removeChild(item)
+
+            const tagName = item.tagName.toLowerCase()
+            report.removedElements[tagName] = (report.removedElements[tagName] ?? 0) + 1
         }
     }
 }
@@ -186,9 +327,10 @@ interface ListLikeElement extends ListItemData {
 }
 
 
-export function parseHtml(htmlString: string): {bodyString: string, stylesString: string} {
-    const domParser = new DOMParser()
-
+export function parseHtml(
+    htmlString: string,
+    domParser: Pick<DOMParser, 'parseFromString'> = new DOMParser()
+): {bodyString: string, stylesString: string} {
     // Remove Word specific "if comments" so content inside is not omitted by the parser.
     htmlString = htmlString.replace( /<!--\[if gte vml 1]>/g, '' )
 
@@ -199,7 +341,7 @@ export function parseHtml(htmlString: string): {bodyString: string, stylesString
     const normalizedHtml = normalizeSpacing( cleanContentAfterBody( htmlString ) )
 
     // Parse htmlString as native Document object.
-    const htmlDocument = domParser.parseFromString( normalizedHtml, 'text/html' )
+    const htmlDocument = parseDocument( domParser, normalizedHtml )
 
     normalizeSpacerunSpans( htmlDocument )
 
@@ -214,15 +356,28 @@ export function parseHtml(htmlString: string): {bodyString: string, stylesString
     }
 }
 
+export function parseDocument(domParser: Pick<DOMParser, 'parseFromString'>, htmlString: string): Document {
+    // Some DOM implementations (e.g. linkedom) only fill the body when parsing a complete document.
+    if (!/<html[\s>]/i.test(htmlString) && !/<body[\s>]/i.test(htmlString)) {
+        // Leading <meta charset> tags of the clipboard data belong in the head.
+        const head = htmlString.match(/^(\s*<meta[^>]*>)*/i)![0]
+        htmlString = `<html><head>${head}</head><body>${htmlString.substring(head.length)}</body></html>`
+    }
+
+    return domParser.parseFromString(htmlString, 'text/html')
+}
+
 function extractStyles( htmlDocument: Document ): string {
-    const styles = []
     const stylesString = []
     const styleTags = Array.from(htmlDocument.getElementsByTagName( 'style' ))
 
+    // Read the source instead of `style.sheet`, which is only available in a document with layout and
+    // drops the Word specific `@list` rules in some DOM implementations.
     for ( const style of styleTags ) {
-        if ( style.sheet && style.sheet.cssRules && style.sheet.cssRules.length ) {
-            styles.push( style.sheet )
-            stylesString.push(style.innerHTML)
+        const styleString = ( style.textContent || '' ).replace( /<!--|-->/g, '' ).trim()
+
+        if ( styleString ) {
+            stylesString.push( styleString )
         }
     }
 
@@ -252,10 +407,9 @@ function normalizeSafariSpaceSpans( htmlString: string ) {
 
 export function normalizeSpacerunSpans( htmlDocument: Document ): void {
     htmlDocument.querySelectorAll( 'span[style*=spacerun]' ).forEach( el => {
-        const htmlElement = el as HTMLElement
-        const innerTextLength = htmlElement.innerText.length || 0
+        const innerTextLength = el.textContent?.length || 0
 
-        htmlElement.innerText = Array( innerTextLength + 1 ).join( '\u00A0 ' ).substring( 0, innerTextLength )
+        el.textContent = Array( innerTextLength + 1 ).join( '\u00A0 ' ).substring( 0, innerTextLength )
     })
 }
 
@@ -275,7 +429,7 @@ function cleanContentAfterBody( htmlString: string ) {
         ( htmlCloseIndex >= 0 ? htmlString.substring( htmlCloseIndex ) : '' )
 }
 
-function convertStyleToObject(styleString: string): Record<string, string> {
+export function convertStyleToObject(styleString: string): Record<string, string> {
     const styleObject: Record<string, string> = {}
 
     if (!styleString) {
@@ -297,11 +451,50 @@ function convertStyleToObject(styleString: string): Record<string, string> {
     return styleObject
 }
 
+// The declarations of the class rules in a stylesheet, by lowercase class name. Only the selectors of a class alone
+// (`.MsoTitle`) or on one of the given elements (`p.MsoTitle`) are read, the rules of a class are merged like in CSS.
+export function parseClassRules(stylesString: string, tagNames: string[]): Record<string, Record<string, string>> {
+    const rules: Record<string, Record<string, string>> = {}
+    const ruleRegex = /([^{}]+)\{([^}]*)\}/g
+    const selectorRegex = new RegExp(`^(?:${tagNames.join('|')})?\\.([\\w-]+)$`, 'i')
+    const styles = stylesString.replace(/\/\*[\s\S]*?\*\//g, '')
+    let ruleMatch
+
+    while ((ruleMatch = ruleRegex.exec(styles)) !== null) {
+        const style = convertStyleToObject(ruleMatch[2]!.replace(/\s+/g, ' '))
+
+        for (const selector of ruleMatch[1]!.split(',')) {
+            const classMatch = selector.trim().match(selectorRegex)
+
+            if (classMatch) {
+                const className = classMatch[1]!.toLowerCase()
+                rules[className] = {...rules[className], ...style}
+            }
+        }
+    }
+
+    return rules
+}
+
+export function convertObjectToStyle(style: Record<string, string>): string {
+    return Object.keys(style).map(property => `${property}:${style[property]}`).join(';')
+}
+
+export function unwrapElement(element: Element) {
+    const parent = element.parentNode!
+
+    while (element.firstChild) {
+        parent.insertBefore(element.firstChild, element)
+    }
+
+    parent.removeChild(element)
+}
+
 function isElementEmpty(element: Element): boolean {
     return !element.textContent && !element.innerHTML.trim()
 }
 
-function removeMSOStyles(element: HTMLElement): void {
+function removeMSOStyles(element: Element): void {
     // Get the current style string of the paragraph node
     const currentStyle = element.getAttribute('style') || ''
 
@@ -351,32 +544,33 @@ function getListItemData(styles: {[key: string]: string}): ListItemData {
     }
 }
 
-function detectListStyle( listLikeItem: ListLikeElement, stylesString: string ) {
-    const listStyleRegexp = new RegExp( `@list l${ listLikeItem.id }:level${ listLikeItem.indent }\\s*({[^}]*)`, 'gi' )
-    const listStyleTypeRegex = /mso-level-number-format:([^;]{0,100});/gi
-    const listStartIndexRegex = /mso-level-start-at:\s{0,100}([0-9]{0,10})\s{0,100};/gi
-    const legalStyleListRegex = new RegExp( `@list\\s+l${ listLikeItem.id }:level\\d\\s*{[^{]*mso-level-text:"%\\d\\\\.`, 'gi' )
-    const multiLevelNumberFormatTypeRegex = new RegExp( `@list l${ listLikeItem.id }:level\\d\\s*{[^{]*mso-level-number-format:`, 'gi' )
+export interface ListStyle {
+    type: string
+    startIndex: number | null
+    style: string | null
+    isLegalStyleList: boolean
+}
 
-    const legalStyleListMatch = legalStyleListRegex.exec( stylesString )
-    const multiLevelNumberFormatMatch = multiLevelNumberFormatTypeRegex.exec( stylesString )
+function detectListStyle(
+    listLikeItem: ListLikeElement,
+    listDefinitions: Record<string, ListDefinition>,
+    report: NormalizerReport
+): ListStyle {
+    const listDefinition = listLikeItem.id !== undefined ? listDefinitions[ listLikeItem.id ] : undefined
+    const levelDefinition = listLikeItem.indent !== undefined ? listDefinition?.levels[ listLikeItem.indent ] : undefined
 
     // Multi level lists in Word have mso-level-number-format attribute except legal lists,
     // so we used that. If list has legal list match and doesn't has mso-level-number-format
     // then this is legal-list.
-    const islegalStyleList = legalStyleListMatch && !multiLevelNumberFormatMatch
-
-    const listStyleMatch = listStyleRegexp.exec( stylesString )
+    const islegalStyleList = !!listDefinition?.isLegalStyleList
 
     let listStyleType = 'decimal' // Decimal is default one.
     let type = 'ol' // <ol> is default list.
     let startIndex = null
 
-    if ( listStyleMatch && listStyleMatch[ 1 ] ) {
-        const listStyleTypeMatch = listStyleTypeRegex.exec( listStyleMatch[ 1 ] )
-
-        if ( listStyleTypeMatch && listStyleTypeMatch[ 1 ] ) {
-            listStyleType = listStyleTypeMatch[ 1 ].trim()
+    if ( levelDefinition ) {
+        if ( levelDefinition.numberFormat ) {
+            listStyleType = levelDefinition.numberFormat
             type = listStyleType !== 'bullet' && listStyleType !== 'image' ? 'ol' : 'ul'
         }
 
@@ -390,12 +584,8 @@ function detectListStyle( listLikeItem: ListLikeElement, stylesString: string )
             if ( bulletedStyle ) {
                 listStyleType = bulletedStyle
             }
-        } else {
-            const listStartIndexMatch = listStartIndexRegex.exec( listStyleMatch[ 1 ] )
-
-            if ( listStartIndexMatch && listStartIndexMatch[ 1 ] ) {
-                startIndex = parseInt( listStartIndexMatch[ 1 ] )
-            }
+        } else if ( levelDefinition.startAt !== null ) {
+            startIndex = levelDefinition.startAt
         }
 
         if ( islegalStyleList ) {
@@ -403,10 +593,16 @@ function detectListStyle( listLikeItem: ListLikeElement, stylesString: string )
         }
     }
 
+    const style = mapListStyleDefinition( listStyleType )
+
+    if ( !style && !KNOWN_NUMBER_FORMATS.includes( listStyleType ) && !report.unknownListFormats.includes( listStyleType ) ) {
+        report.unknownListFormats.push( listStyleType )
+    }
+
     return {
         type,
         startIndex,
-        style: mapListStyleDefinition( listStyleType ),
+        style,
         isLegalStyleList: islegalStyleList
     }
 }
@@ -459,6 +655,9 @@ function findListMarkerNode( element: Element ): Element | null {
     return null
 }
 
+// The formats without list style, which are not a fallback.
+const KNOWN_NUMBER_FORMATS = [ 'decimal', 'bullet', 'image' ]
+
 function mapListStyleDefinition( value: string ) {
     if ( value.startsWith( 'arabic-leading-zero' ) ) {
         return 'decimal-leading-zero'
@@ -482,16 +681,17 @@ function mapListStyleDefinition( value: string ) {
     }
 }
 
-function createNewEmptyList(
-    listStyle: ReturnType<typeof detectListStyle>,
+export function createNewEmptyList(
+    doc: Document,
+    listStyle: ListStyle,
     hasMultiLevelListPlugin: boolean
 ) {
-    const list = document.createElement(listStyle.type)
+    const list = doc.createElement(listStyle.type)
 
     // We do not support modifying the marker for a particular list item.
     // Set the value for the `list-style-type` property directly to the list container.
     if ( listStyle.style ) {
-        list.style.setProperty('list-style-type', listStyle.style)
+        list.setAttribute('style', `list-style-type:${listStyle.style}`)
     }
 
     if ( listStyle.startIndex && listStyle.startIndex > 1 ) {
@@ -505,20 +705,42 @@ function createNewEmptyList(
     return list
 }
 
-function removeMsoListIgnoreSpans(parentElement: Element) {
-    // Get all <span> elements inside the parentElement
-    const spans = parentElement.querySelectorAll('span')
-
-    // Iterate over each <span> element
-    spans.forEach(span => {
-        // Get the value of the 'style' attribute
-        const style = span.getAttribute('style')
-        // Check if the 'style' attribute contains 'mso-list: Ignore'
-        if (style && style.includes('mso-list:Ignore')) {
-            // Remove the <span> element
-            span.parentNode?.removeChild(span)
+// Returns the number of the list item, the numbers of the deeper levels restart after it.
+function countListItem(
+    listLikeItem: ListLikeElement,
+    listDefinitions: Record<string, ListDefinition>,
+    counters: Record<string, number[]>
+): number | null {
+    if ( listLikeItem.id === undefined || listLikeItem.indent === undefined ) {
+        return null
+    }
+
+    const key = `${ listLikeItem.id }:${ listLikeItem.order }`
+    const numbers = counters[ key ] = counters[ key ] ?? []
+    const index = listLikeItem.indent - 1
+    const value = numbers[ index ] !== undefined ?
+        numbers[ index ]! + 1 :
+        listDefinitions[ listLikeItem.id ]?.levels[ listLikeItem.indent ]?.startAt ?? 1
+
+    numbers[ index ] = value
+    numbers.length = index + 1
+
+    return value
+}
+
+function removeMsoListIgnoreSpans( markers: Element[], listBlocks: Set<Element> ) {
+    for ( const marker of markers ) {
+        // Only the markers of the converted list items are removed.
+        let parent = marker.parentElement
+
+        while ( parent && !listBlocks.has( parent ) ) {
+            parent = parent.parentElement
         }
-    })
+
+        if ( parent ) {
+            marker.parentNode?.removeChild( marker )
+        }
+    }
 }
 
 function isListContinuation( currentItem: ListLikeElement ) {
@@ -534,4 +756,4 @@ function isListContinuation( currentItem: ListLikeElement ) {
     return isList( previousSibling )
 }
 
-const isList = (element: HTMLElement) => ['ul', 'ol'].includes(element.tagName.toLowerCase())
+export const isList = (element: Element) => ['ul', 'ol'].includes(element.tagName.toLowerCase())
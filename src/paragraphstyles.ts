@@ -0,0 +1,106 @@
+import {convertStyleToObject, parseClassRules} from './normalizer'
+import {renameElement} from './formatting'
+
+export type ParagraphStyleElement = 'p' | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'blockquote' | 'pre' | 'code'
+
+// Maps Word style names (e.g. "Title" or "Intense Quote") or their class names to an element.
+export type ParagraphStyleMap = Record<string, ParagraphStyleElement>
+
+const DEFAULT_STYLE_MAP: ParagraphStyleMap = {
+    'title': 'h1',
+    'subtitle': 'h2',
+    'heading 1': 'h1',
+    'heading 2': 'h2',
+    'heading 3': 'h3',
+    'heading 4': 'h4',
+    'heading 5': 'h5',
+    'heading 6': 'h6',
+    'quote': 'blockquote',
+    'intense quote': 'blockquote',
+    'block text': 'blockquote',
+    'code': 'pre',
+    'html preformatted': 'pre',
+    'plain text': 'pre'
+}
+
+interface ParagraphStyleDefinition {
+    name?: string
+    outlineLevel?: number
+}
+
+export function transformParagraphStyles(doc: Document, stylesString: string, styleMap: ParagraphStyleMap = {}) {
+    const definitions = parseParagraphStyleDefinitions(stylesString)
+    const map = normalizeStyleMap({...DEFAULT_STYLE_MAP, ...styleMap})
+
+    for (const paragraph of Array.from(doc.querySelectorAll('p, div'))) {
+        // Paragraphs inside lists are list item content.
+        if (paragraph.parentElement?.closest('li')) {
+            continue
+        }
+
+        const tagName = resolveParagraphElement(paragraph, definitions, map)
+
+        if (tagName && tagName != paragraph.tagName.toLowerCase()) {
+            renameElement(doc, paragraph, tagName)
+        }
+    }
+}
+
+function resolveParagraphElement(
+    paragraph: Element,
+    definitions: Record<string, ParagraphStyleDefinition>,
+    map: ParagraphStyleMap
+): ParagraphStyleElement | null {
+    const style = convertStyleToObject(paragraph.getAttribute('style') || '')
+    const className = Array.from(paragraph.classList)[0]?.toLowerCase()
+    const definition = (className && definitions[className]) || {}
+
+    const styleName = normalizeStyleName(style['mso-style-name'] ?? definition.name ?? '')
+    // Without a style definition the built-in styles can still be recognized by their class, e.g. MsoTitle.
+    const mapped = (styleName && map[styleName]) || (className && (map[className] || map[className.replace(/^mso/, '')]))
+
+    if (mapped) {
+        return mapped
+    }
+
+    const outlineLevel = parseInt(style['mso-outline-level'] ?? '') || definition.outlineLevel
+
+    if (outlineLevel && outlineLevel >= 1 && outlineLevel <= 6) {
+        return `h${outlineLevel}` as ParagraphStyleElement
+    }
+
+    return null
+}
+
+function parseParagraphStyleDefinitions(stylesString: string): Record<string, ParagraphStyleDefinition> {
+    const definitions: Record<string, ParagraphStyleDefinition> = {}
+    // Word defines each style for `p.Class, li.Class, div.Class`.
+    const rules = parseClassRules(stylesString, ['p', 'div', 'li'])
+
+    for (const className of Object.keys(rules)) {
+        const style = rules[className]!
+        const name = style['mso-style-name']?.replace(/^["']|["']$/g, '')
+        const outlineLevel = parseInt(style['mso-outline-level'] ?? '') || undefined
+
+        if (name || outlineLevel) {
+            definitions[className] = {name, outlineLevel}
+        }
+    }
+
+    return definitions
+}
+
+function normalizeStyleMap(styleMap: ParagraphStyleMap): ParagraphStyleMap {
+    const result: ParagraphStyleMap = {}
+
+    for (const name of Object.keys(styleMap)) {
+        result[normalizeStyleName(name)] = styleMap[name]!
+    }
+
+    return result
+}
+
+// Style names are compared without whitespace, so "Intense Quote" also matches the MsoIntenseQuote class.
+function normalizeStyleName(name: string): string {
+    return name.replace(/["'\s]/g, '').toLowerCase()
+}
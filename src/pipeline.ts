@@ -0,0 +1,83 @@
+import {ExcelNormalizer} from './excel'
+import {GoogleDocsNormalizer} from './googledocs'
+import {MSWordNormalizer} from './normalizer'
+import type {DomAdapter, PasteNormalizer, PasteTransform} from './types'
+
+export interface PasteNormalizerPipelineOptions {
+    // `first` only runs the first active normalizer, `chain` runs every normalizer that is active on the
+    // output of the previous one.
+    mode?: 'first' | 'chain'
+    // Used to create the default normalizers.
+    dom?: DomAdapter
+}
+
+export class PasteNormalizerPipeline implements PasteNormalizer {
+    private normalizers: PasteNormalizer[]
+    private mode: 'first' | 'chain'
+    private transformsBefore: PasteTransform[] = []
+    private transformsAfter: PasteTransform[] = []
+
+    constructor(
+        normalizers?: PasteNormalizer[],
+        options: PasteNormalizerPipelineOptions = {}
+    ) {
+        this.normalizers = normalizers ? [...normalizers] : [
+            new MSWordNormalizer({dom: options.dom}),
+            new ExcelNormalizer({dom: options.dom}),
+            new GoogleDocsNormalizer({dom: options.dom})
+        ]
+        this.mode = options.mode ?? 'first'
+    }
+
+    public register(normalizer: PasteNormalizer, options: {prepend?: boolean} = {}): this {
+        if (options.prepend) {
+            this.normalizers.unshift(normalizer)
+        } else {
+            this.normalizers.push(normalizer)
+        }
+        return this
+    }
+
+    public unregister(normalizer: PasteNormalizer): this {
+        this.normalizers = this.normalizers.filter(registered => registered !== normalizer)
+        return this
+    }
+
+    public getNormalizers(): PasteNormalizer[] {
+        return [...this.normalizers]
+    }
+
+    // Runs before the normalizers, also when none of them is active.
+    public addTransformBefore(transform: PasteTransform): this {
+        this.transformsBefore.push(transform)
+        return this
+    }
+
+    // Runs after the normalizers, also when none of them is active.
+    public addTransformAfter(transform: PasteTransform): this {
+        this.transformsAfter.push(transform)
+        return this
+    }
+
+    public isActive(htmlString: string): boolean {
+        return this.normalizers.some(normalizer => normalizer.isActive(htmlString))
+    }
+
+    public normalize(htmlString: string): string {
+        htmlString = this.transformsBefore.reduce((html, transform) => transform(html), htmlString)
+
+        for (const normalizer of this.normalizers) {
+            if (!normalizer.isActive(htmlString)) {
+                continue
+            }
+
+            htmlString = normalizer.normalize(htmlString)
+
+            if (this.mode === 'first') {
+                break
+            }
+        }
+
+        return this.transformsAfter.reduce((html, transform) => transform(html), htmlString)
+    }
+}
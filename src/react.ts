@@ -0,0 +1,13 @@
+import {useEffect} from 'react'
+import {useLexicalComposerContext} from '@lexical/react/LexicalComposerContext'
+import {registerPasteFromWord, type PasteFromWordOptions} from './lexical'
+
+export function PasteFromWordPlugin({normalizer, priority, rtf}: PasteFromWordOptions): null {
+    const [editor] = useLexicalComposerContext()
+
+    useEffect(() => {
+        return registerPasteFromWord(editor, {normalizer, priority, rtf})
+    }, [editor, normalizer, priority, rtf])
+
+    return null
+}
@@ -0,0 +1,155 @@
+import {convertStyleToObject, unwrapElement} from './normalizer'
+import type {NormalizerComment} from './types'
+
+// `acceptAll` keeps the insertions and drops the deletions, `rejectAll` does the opposite and `preserve` keeps
+// both as <ins> and <del> elements with the author and date as data attributes.
+export type RevisionsMode = 'acceptAll' | 'rejectAll' | 'preserve'
+
+// `remove` drops the comments, `extract` also returns them in the result of `normalizeWithResult`.
+export type CommentsMode = 'remove' | 'extract'
+
+const COMMENT_MARKER_SELECTOR = 'a.msocomanchor, a[href^="#_msocom_"]'
+
+export function transformRevisions(doc: Document, mode: RevisionsMode) {
+    for (const revision of Array.from(doc.querySelectorAll('ins, del'))) {
+        const isInsertion = revision.tagName.toLowerCase() == 'ins'
+
+        if (mode == 'preserve' && revision.parentElement?.closest(revision.tagName)) {
+            // Word nests the revision in a second <ins> or <del> element.
+            unwrapElement(revision)
+        } else if (mode == 'preserve') {
+            const author = decodeAuthor((revision.getAttribute('cite') || '').replace(/^mailto:/i, '')) ||
+                convertStyleToObject(revision.getAttribute('style') || '')['mso-author']?.replace(/^["']|["']$/g, '')
+            const date = revision.getAttribute('datetime')
+
+            for (const attribute of Array.from(revision.attributes)) {
+                revision.removeAttribute(attribute.name)
+            }
+
+            if (author) {
+                revision.setAttribute('data-author', author)
+            }
+            if (date) {
+                revision.setAttribute('data-date', date)
+            }
+        } else if (isInsertion == (mode == 'acceptAll')) {
+            unwrapElement(revision)
+        } else {
+            revision.parentNode?.removeChild(revision)
+        }
+    }
+
+    // The wrappers Word adds around every revision.
+    for (const wrapper of Array.from(doc.querySelectorAll('span.msoIns, span.msoDel'))) {
+        if (wrapper.textContent) {
+            unwrapElement(wrapper)
+        } else {
+            wrapper.parentNode?.removeChild(wrapper)
+        }
+    }
+}
+
+export function transformComments(doc: Document, mode: CommentsMode, comments: NormalizerComment[]) {
+    const references = findCommentReferences(doc)
+
+    for (const comment of findComments(doc)) {
+        if (mode == 'extract') {
+            const reference = references.get(comment.id)
+
+            comments.push({
+                ...comment,
+                initials: reference?.initials ?? null,
+                date: reference?.date ?? null,
+                reference: reference?.text ?? ''
+            })
+        }
+    }
+
+    // The [JD1] like markers pointing to the comments, removed first as they are comment references as well.
+    for (const anchor of Array.from(doc.querySelectorAll(COMMENT_MARKER_SELECTOR))) {
+        const wrapper = anchor.closest('span.MsoCommentReference') ?? anchor
+        wrapper.parentNode?.removeChild(wrapper)
+    }
+
+    // The commented text is kept, only the marking is removed.
+    for (const anchor of Array.from(doc.querySelectorAll('a[style*="mso-comment-reference"]'))) {
+        unwrapElement(anchor)
+    }
+
+    for (const element of Array.from(doc.querySelectorAll('div[style*="mso-element"]'))) {
+        const msoElement = convertStyleToObject(element.getAttribute('style') || '')['mso-element']
+
+        if (msoElement == 'comment-list' || msoElement == 'comment') {
+            element.parentNode?.removeChild(element)
+        }
+    }
+}
+
+function findComments(doc: Document): Array<Pick<NormalizerComment, 'id' | 'author' | 'text'>> {
+    const comments: Array<Pick<NormalizerComment, 'id' | 'author' | 'text'>> = []
+
+    for (const element of Array.from(doc.querySelectorAll('div[style*="mso-element"]'))) {
+        if (convertStyleToObject(element.getAttribute('style') || '')['mso-element'] != 'comment') {
+            continue
+        }
+
+        const id = (element.querySelector('a[name^="_msocom_"]')?.getAttribute('name') || '').replace('_msocom_', '')
+        const authorElement = element.querySelector('[style*="mso-comment-author"]')
+        const author = authorElement ?
+            convertStyleToObject(authorElement.getAttribute('style') || '')['mso-comment-author']?.replace(/^["']|["']$/g, '') :
+            undefined
+
+        // Leave out the marker at the start of the comment text.
+        const content = element.cloneNode(true) as Element
+        for (const marker of Array.from(content.querySelectorAll('span.MsoCommentReference, a.msocomoff'))) {
+            marker.parentNode?.removeChild(marker)
+        }
+
+        comments.push({
+            id,
+            author: author ?? null,
+            text: (content.textContent || '').replace(/\s+/g, ' ').trim()
+        })
+    }
+
+    return comments
+}
+
+function findCommentReferences(doc: Document): Map<string, {text: string, initials: string | null, date: string | null}> {
+    const references = new Map<string, {text: string, initials: string | null, date: string | null}>()
+
+    for (const anchor of Array.from(doc.querySelectorAll('a[style*="mso-comment-reference"]'))) {
+        // The marker carries the same reference, but not the commented text.
+        if (anchor.matches(COMMENT_MARKER_SELECTOR)) {
+            continue
+        }
+
+        const style = convertStyleToObject(anchor.getAttribute('style') || '')
+        // The reference is written as "JD_1", the initials of the author and the number of the comment.
+        const match = (style['mso-comment-reference'] || '').match(/^(.*)_(\d+)$/)
+
+        // A comment on text spanning several runs has a reference for each run.
+        const text = (anchor.textContent || '').replace(/\s+/g, ' ').trim()
+        const existing = match ? references.get(match[2]!) : undefined
+
+        if (match && existing) {
+            existing.text = `${existing.text} ${text}`.trim()
+        } else if (match) {
+            references.set(match[2]!, {
+                text,
+                initials: match[1] || null,
+                date: style['mso-comment-date'] ?? null
+            })
+        }
+    }
+
+    return references
+}
+
+function decodeAuthor(author: string): string {
+    try {
+        return decodeURIComponent(author)
+    } catch {
+        return author
+    }
+}
@@ -0,0 +1,982 @@
+import {convertHexToBase64} from './images'
+import {convertSymbolFontText} from './symbolfonts'
+
+interface RtfGroup {
+    children: RtfNode[]
+}
+
+type RtfToken =
+    {type: 'word', name: string, parameter: number | null} |
+    {type: 'symbol', value: string} |
+    {type: 'hex', value: number} |
+    {type: 'text', value: string}
+
+type RtfNode = RtfGroup | RtfToken
+
+interface CharacterState {
+    bold: boolean
+    italic: boolean
+    underline: boolean
+    strike: boolean
+    superscript: boolean
+    subscript: boolean
+    hidden: boolean
+    font: number | null
+    // The amount of fallback characters after a `\u` character.
+    unicodeSkip: number
+}
+
+interface ParagraphState {
+    align: string | null
+    // In twips.
+    leftIndent: number
+    inTable: boolean
+    listId: string | null
+    listLevel: number
+    // The list of the `\pn` paragraph numbering of older writers like WordPad.
+    numbering: Numbering | null
+}
+
+interface Numbering {
+    level: number
+    numberFormat: number
+    // The `\pnstart` number.
+    start: number
+}
+
+interface RtfFont {
+    name: string
+    charset: number | null
+}
+
+interface RtfListLevel {
+    // The `\levelnfc` number format, e.g. 0 for decimal and 23 for bullets.
+    numberFormat: number
+    startAt: number
+}
+
+interface Run {
+    html: string
+    format: string[]
+    href: string | null
+}
+
+interface ListInfo {
+    id: string
+    level: number
+    tagName: 'ol' | 'ul'
+    style: string | null
+    value: number
+}
+
+interface Block {
+    html: string
+    list: ListInfo | null
+}
+
+interface CellDefinition {
+    right: number
+    merge: 'first' | 'continue' | null
+    verticalMerge: 'first' | 'continue' | null
+}
+
+interface Cell {
+    html: string
+    definition: CellDefinition | undefined
+    colSpan: number
+    rowSpan: number
+}
+
+interface Row {
+    cells: Cell[]
+    isHeader: boolean
+}
+
+// The `\levelnfc` and `\pn` number formats, as list style type. Formats without style are decimal lists.
+const NUMBER_FORMATS: Record<number, string> = {
+    1: 'upper-roman',
+    2: 'lower-roman',
+    3: 'upper-alpha',
+    4: 'lower-alpha',
+    22: 'decimal-leading-zero'
+}
+
+const BULLET_NUMBER_FORMATS = [23, 255]
+
+const PN_NUMBER_FORMATS: Record<string, number> = {
+    pndec: 0,
+    pnucrm: 1,
+    pnlcrm: 2,
+    pnucltr: 3,
+    pnlcltr: 4
+}
+
+const CHARSET_CODEPAGES: Record<number, number> = {
+    0: 1252, 128: 932, 129: 949, 134: 936, 136: 950, 161: 1253, 162: 1254,
+    163: 1258, 177: 1255, 178: 1256, 186: 1257, 204: 1251, 222: 874, 238: 1250
+}
+
+const CODEPAGE_ENCODINGS: Record<number, string> = {
+    932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5', 10000: 'macintosh'
+}
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+    emdash: '—',
+    endash: '–',
+    bullet: '•',
+    lquote: '‘',
+    rquote: '’',
+    ldblquote: '“',
+    rdblquote: '”',
+    emspace: ' ',
+    enspace: ' ',
+    tab: ' '
+}
+
+// The destinations without content for the pasted html.
+const SKIPPED_DESTINATIONS = [
+    'colortbl', 'stylesheet', 'info', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr',
+    'footerf', 'footnote', 'annotation', 'nonshppict', 'xmlnstbl', 'fldinst', 'themedata', 'colorschememapping',
+    'latentstyles', 'datastore', 'rsidtbl', 'generator', 'pgdsctbl', 'object', 'objdata'
+]
+
+// Word puts the pictures in an ignorable `\shppict` destination.
+const PROCESSED_IGNORABLE_DESTINATIONS = ['shppict']
+
+const TWIPS_PER_INDENT = 720
+
+// Converts RTF, e.g. from the `text/rtf` clipboard data of WordPad, into the same clean html `normalize` returns.
+export function convertRtfToHtml(rtfString: string): string {
+    return new RtfConverter(parseRtf(rtfString)).convert()
+}
+
+class RtfConverter {
+    private fonts: Record<number, RtfFont> = {}
+    private defaultFont: number | null = null
+    private codepage = 1252
+    // The list levels by `\ls` list override.
+    private lists: Record<string, RtfListLevel[]> = {}
+
+    private paragraph = createParagraphState()
+    private runs: Run[] = []
+    private blocks: Block[] = []
+    private listMarker: string | null = null
+    // The numbers of the list items per list, by level.
+    private listCounters: Record<string, number[]> = {}
+    // The `\pn` list of the previous paragraph, with the numbering of its levels.
+    private numberingList: {id: string, levels: string[]} | null = null
+    private numberingListCount = 0
+    private href: string | null = null
+    private skip = 0
+    private bytes: number[] = []
+
+    private rowDefinition: {cells: CellDefinition[], isHeader: boolean} = {cells: [], isHeader: false}
+    private pendingCellDefinition: Omit<CellDefinition, 'right'> = {merge: null, verticalMerge: null}
+    private cellParagraphs: string[] = []
+    private cells: Cell[] = []
+    private rows: Row[] = []
+
+    constructor(private document: RtfGroup) {
+    }
+
+    public convert(): string {
+        this.processGroup(this.document, createCharacterState(null))
+
+        if (this.runs.length) {
+            this.endParagraph()
+        }
+        this.flushTable()
+
+        return serializeBlocks(this.blocks)
+    }
+
+    private processGroup(group: RtfGroup, parentState: CharacterState) {
+        const state = {...parentState}
+        const isIgnorable = isSymbol(group.children[0], '*')
+        const destination = group.children[isIgnorable ? 1 : 0]
+        const destinationName = destination && 'type' in destination && destination.type == 'word' ? destination.name : null
+
+        switch (destinationName) {
+            case 'fonttbl':
+                this.parseFontTable(group)
+                return
+            case 'listtable':
+                this.parseListTable(group)
+                return
+            case 'listoverridetable':
+                this.parseListOverrideTable(group)
+                return
+            case 'listtext':
+            case 'pntext':
+                // The marker of the list item, which is part of the list markup.
+                this.listMarker = getGroupText(group)
+                return
+            case 'pn':
+                this.paragraph.numbering = parseNumbering(group)
+                return
+            case 'pict':
+                this.addImage(group)
+                return
+            case 'field':
+                this.processField(group, state)
+                return
+        }
+
+        if (destinationName && SKIPPED_DESTINATIONS.includes(destinationName)) {
+            return
+        }
+
+        if (isIgnorable && !(destinationName && PROCESSED_IGNORABLE_DESTINATIONS.includes(destinationName))) {
+            return
+        }
+
+        for (const node of group.children) {
+            if (!('type' in node)) {
+                this.flushBytes(state)
+                this.processGroup(node, state)
+                continue
+            }
+
+            if (node.type == 'hex') {
+                this.addByte(node.value)
+                continue
+            }
+
+            this.flushBytes(state)
+
+            if (node.type == 'text') {
+                this.addText(node.value, state)
+            } else if (node.type == 'symbol') {
+                this.processSymbol(node.value, state)
+            } else {
+                this.processWord(node.name, node.parameter, state)
+            }
+        }
+
+        this.flushBytes(state)
+    }
+
+    private processWord(name: string, parameter: number | null, state: CharacterState) {
+        const isOn = parameter !== 0
+
+        switch (name) {
+            case 'par':
+                this.endParagraph()
+                break
+            case 'line':
+                this.addRun('<br>', state)
+                break
+            case 'page':
+                if (this.runs.length) {
+                    this.endParagraph()
+                }
+                this.flushTable()
+                this.blocks.push({html: '<hr>', list: null})
+                break
+            case 'pard':
+                this.paragraph = createParagraphState()
+                break
+            case 'plain':
+                Object.assign(state, createCharacterState(this.defaultFont), {unicodeSkip: state.unicodeSkip})
+                break
+            case 'b':
+                state.bold = isOn
+                break
+            case 'i':
+                state.italic = isOn
+                break
+            case 'strike':
+            case 'striked':
+                state.strike = isOn
+                break
+            case 'v':
+                state.hidden = isOn
+                break
+            case 'ulnone':
+                state.underline = false
+                break
+            case 'super':
+                state.superscript = true
+                state.subscript = false
+                break
+            case 'sub':
+                state.subscript = true
+                state.superscript = false
+                break
+            case 'nosupersub':
+                state.superscript = false
+                state.subscript = false
+                break
+            case 'f':
+                state.font = parameter
+                break
+            case 'deff':
+                this.defaultFont = parameter
+                break
+            case 'ansicpg':
+                this.codepage = parameter ?? this.codepage
+                break
+            case 'uc':
+                state.unicodeSkip = parameter ?? 1
+                break
+            case 'u':
+                this.addText(String.fromCharCode((parameter ?? 0) < 0 ? (parameter ?? 0) + 65536 : parameter ?? 0), state)
+                this.skip = state.unicodeSkip
+                break
+            case 'ql':
+            case 'qc':
+            case 'qr':
+            case 'qj':
+                this.paragraph.align = {ql: null, qc: 'center', qr: 'right', qj: 'justify'}[name]
+                break
+            case 'li':
+                this.paragraph.leftIndent = parameter ?? 0
+                break
+            case 'intbl':
+                this.paragraph.inTable = true
+                break
+            case 'ls':
+                this.paragraph.listId = String(parameter)
+                break
+            case 'ilvl':
+                this.paragraph.listLevel = parameter ?? 0
+                break
+            case 'trowd':
+                this.rowDefinition = {cells: [], isHeader: false}
+                break
+            case 'trhdr':
+                this.rowDefinition.isHeader = true
+                break
+            case 'clmgf':
+            case 'clmrg':
+                this.pendingCellDefinition.merge = name == 'clmgf' ? 'first' : 'continue'
+                break
+            case 'clvmgf':
+            case 'clvmrg':
+                this.pendingCellDefinition.verticalMerge = name == 'clvmgf' ? 'first' : 'continue'
+                break
+            case 'cellx':
+                this.rowDefinition.cells.push({right: parameter ?? 0, ...this.pendingCellDefinition})
+                this.pendingCellDefinition = {merge: null, verticalMerge: null}
+                break
+            case 'cell':
+                this.endCell()
+                break
+            case 'row':
+                this.endRow()
+                break
+            default:
+                if (name.startsWith('ul') && !name.startsWith('ulc')) {
+                    // All underline styles, like `\uld` for dotted, are a plain underline in html.
+                    state.underline = isOn
+                } else if (name in SPECIAL_CHARACTERS) {
+                    this.addText(SPECIAL_CHARACTERS[name]!, state)
+                }
+        }
+    }
+
+    private processSymbol(symbol: string, state: CharacterState) {
+        if (symbol == '~') {
+            this.addText(' ', state)
+        } else if (symbol == '_') {
+            this.addText('‑', state)
+        } else if (['\\', '{', '}'].includes(symbol)) {
+            this.addText(symbol, state)
+        }
+    }
+
+    private processField(group: RtfGroup, state: CharacterState) {
+        const instructionGroup = findDestination(group, 'fldinst')
+        const resultGroup = findDestination(group, 'fldrslt')
+
+        if (!resultGroup) {
+            return
+        }
+
+        // Only the result of a field is kept, as link for a HYPERLINK field.
+        const previousHref = this.href
+        this.href = instructionGroup ? parseHyperlink(getGroupText(instructionGroup)) ?? previousHref : previousHref
+        this.processGroup(resultGroup, state)
+        this.href = previousHref
+    }
+
+    private addText(text: string, state: CharacterState) {
+        if (this.skip) {
+            const skipped = Math.min(this.skip, text.length)
+            text = text.substring(skipped)
+            this.skip -= skipped
+        }
+
+        if (!text || state.hidden) {
+            return
+        }
+
+        const font = state.font !== null ? this.fonts[state.font] : undefined
+
+        this.addRun(escapeHtml(font ? convertSymbolFontText(text, font.name) : text), state)
+    }
+
+    private addByte(byte: number) {
+        if (this.skip) {
+            this.skip--
+        } else {
+            this.bytes.push(byte)
+        }
+    }
+
+    // Multi byte characters are written as consecutive `\'hh` bytes, so these are decoded together.
+    private flushBytes(state: CharacterState) {
+        if (!this.bytes.length) {
+            return
+        }
+
+        const bytes = this.bytes
+        this.bytes = []
+
+        const font = state.font !== null ? this.fonts[state.font] : undefined
+        const codepage = font && font.charset !== null ? CHARSET_CODEPAGES[font.charset] : this.codepage
+
+        // Symbol fonts (charset 2) use the byte as character code.
+        this.addText(codepage ? decodeBytes(bytes, codepage) : String.fromCharCode(...bytes), state)
+    }
+
+    private addRun(html: string, state: CharacterState) {
+        this.runs.push({html, format: getFormatTagNames(state), href: this.href})
+    }
+
+    private addImage(group: RtfGroup) {
+        let type: string | null = null
+        let hex = ''
+        const size: Record<string, number> = {}
+
+        for (const node of group.children) {
+            if (!('type' in node)) {
+                continue
+            }
+
+            if (node.type == 'word') {
+                if (node.name == 'pngblip') {
+                    type = 'image/png'
+                } else if (node.name == 'jpegblip') {
+                    type = 'image/jpeg'
+                } else if (['picwgoal', 'pichgoal', 'picscalex', 'picscaley'].includes(node.name)) {
+                    size[node.name] = node.parameter ?? 0
+                }
+            } else if (node.type == 'text') {
+                hex += node.value.replace(/[^\da-fA-F]/g, '')
+            }
+        }
+
+        // Windows and enhanced metafiles and bitmaps cannot be displayed by the browser.
+        if (!type || !hex) {
+            return
+        }
+
+        // The size is in twips, 15 per pixel.
+        const width = Math.round((size['picwgoal'] ?? 0) * (size['picscalex'] ?? 100) / 100 / 15)
+        const height = Math.round((size['pichgoal'] ?? 0) * (size['picscaley'] ?? 100) / 100 / 15)
+
+        this.runs.push({
+            html: `<img src="data:${type};base64,${convertHexToBase64(hex)}"${width ? ` width="${width}"` : ''}${height ? ` height="${height}"` : ''}>`,
+            format: [],
+            href: this.href
+        })
+    }
+
+    private endParagraph() {
+        const html = serializeRuns(this.runs)
+        this.runs = []
+
+        if (this.paragraph.inTable) {
+            this.cellParagraphs.push(html)
+            this.numberingList = null
+            return
+        }
+
+        this.flushTable()
+
+        const list = this.getListInfo()
+        const style = [
+            this.paragraph.align ? `text-align:${this.paragraph.align}` : '',
+            !list && this.paragraph.leftIndent >= TWIPS_PER_INDENT / 2 ?
+                `text-indent:${Math.round(this.paragraph.leftIndent / TWIPS_PER_INDENT) * 20}px` :
+                ''
+        ].filter(property => property).join(';')
+
+        this.blocks.push({html: `<p${style ? ` style="${style}"` : ''}>${html}</p>`, list})
+        this.listMarker = null
+    }
+
+    private getListInfo(): ListInfo | null {
+        const {listId, listLevel, numbering} = this.paragraph
+        let id: string
+        let level: number
+        let numberFormat: number
+        let startAt: number | undefined
+
+        if (listId !== null) {
+            const levelDefinition = this.lists[listId]?.[listLevel]
+
+            id = listId
+            level = listLevel
+            // Without list table the marker tells whether the list is numbered.
+            numberFormat = levelDefinition ? levelDefinition.numberFormat : /\w/.test(this.listMarker ?? '') ? 0 : 23
+        } else if (numbering) {
+            id = this.getNumberingListId(numbering)
+            level = numbering.level
+            numberFormat = numbering.numberFormat
+            startAt = numbering.start
+        } else {
+            // A paragraph without numbering ends the `\pn` list.
+            this.numberingList = null
+            return null
+        }
+
+        const isBullet = BULLET_NUMBER_FORMATS.includes(numberFormat)
+
+        return {
+            id,
+            level,
+            tagName: isBullet ? 'ul' : 'ol',
+            style: isBullet ? getBulletStyle(this.listMarker) : NUMBER_FORMATS[numberFormat] ?? null,
+            value: this.countListItem(id, level, startAt)
+        }
+    }
+
+    // Paragraph numbering has no list id: the paragraphs in a row with the same numbering per level form a list.
+    private getNumberingListId(numbering: Numbering): string {
+        const key = `${numbering.numberFormat}:${numbering.start}`
+
+        if (!this.numberingList || (this.numberingList.levels[numbering.level] ?? key) != key) {
+            this.numberingList = {id: `pn${this.numberingListCount++}`, levels: []}
+        }
+        this.numberingList.levels[numbering.level] = key
+
+        return this.numberingList.id
+    }
+
+    // The numbers of the deeper levels restart after an item.
+    private countListItem(id: string, level: number, startAt = this.lists[id]?.[level]?.startAt ?? 1): number {
+        const numbers = this.listCounters[id] = this.listCounters[id] ?? []
+        const value = numbers[level] !== undefined ? numbers[level]! + 1 : startAt
+
+        numbers[level] = value
+        numbers.length = level + 1
+
+        return value
+    }
+
+    private endCell() {
+        if (this.runs.length || !this.cellParagraphs.length) {
+            this.cellParagraphs.push(serializeRuns(this.runs))
+            this.runs = []
+        }
+
+        this.cells.push({
+            html: this.cellParagraphs.join('<br>'),
+            definition: this.rowDefinition.cells[this.cells.length],
+            colSpan: 1,
+            rowSpan: 1
+        })
+        this.cellParagraphs = []
+    }
+
+    private endRow() {
+        this.rows.push({cells: this.cells, isHeader: this.rowDefinition.isHeader})
+        this.cells = []
+    }
+
+    private flushTable() {
+        if (!this.rows.length) {
+            return
+        }
+
+        this.blocks.push({html: serializeTable(this.rows), list: null})
+        this.rows = []
+    }
+
+    private parseFontTable(group: RtfGroup) {
+        let font: RtfFont | null = null
+
+        const parse = (group: RtfGroup) => {
+            for (const node of group.children) {
+                if (!('type' in node)) {
+                    if (!isSymbol(node.children[0], '*')) {
+                        parse(node)
+                    }
+                } else if (node.type == 'word' && node.name == 'f' && node.parameter !== null) {
+                    font = this.fonts[node.parameter] = {name: '', charset: null}
+                } else if (node.type == 'word' && node.name == 'fcharset' && font) {
+                    font.charset = node.parameter
+                } else if (node.type == 'text' && font) {
+                    font.name += node.value
+                }
+            }
+        }
+        parse(group)
+
+        for (const index of Object.keys(this.fonts)) {
+            const font = this.fonts[parseInt(index)]!
+            font.name = font.name.split(';')[0]!.trim()
+            // Symbol fonts are decoded by character code.
+            if (font.charset == 2) {
+                font.charset = null
+            }
+        }
+    }
+
+    private parseListTable(group: RtfGroup) {
+        const lists: Record<string, RtfListLevel[]> = {}
+
+        for (const list of getChildGroups(group, 'list')) {
+            const listId = findWord(list, 'listid')?.parameter
+
+            lists[String(listId)] = getChildGroups(list, 'listlevel').map(level => ({
+                numberFormat: (findWord(level, 'levelnfc') ?? findWord(level, 'levelnfcn'))?.parameter ?? 0,
+                startAt: findWord(level, 'levelstartat')?.parameter ?? 1
+            }))
+        }
+
+        // The list overrides refer to the lists by id, until then the ids are used.
+        this.lists = lists
+    }
+
+    private parseListOverrideTable(group: RtfGroup) {
+        const lists: Record<string, RtfListLevel[]> = {}
+
+        for (const override of getChildGroups(group, 'listoverride')) {
+            const listId = findWord(override, 'listid')?.parameter
+            const overrideId = findWord(override, 'ls')?.parameter
+
+            if (overrideId !== undefined && this.lists[String(listId)]) {
+                lists[String(overrideId)] = this.lists[String(listId)]!
+            }
+        }
+
+        this.lists = lists
+    }
+}
+
+function parseRtf(rtfString: string): RtfGroup {
+    const root: RtfGroup = {children: []}
+    const stack: RtfGroup[] = [root]
+    const tokenRegex = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([\da-fA-F]{2})|\\([^a-zA-Z])|([{}])|([^\\{}\r\n]+)|[\r\n]+/g
+    let match
+
+    while ((match = tokenRegex.exec(rtfString)) !== null) {
+        const current = stack[stack.length - 1]!
+
+        if (match[1]) {
+            current.children.push({type: 'word', name: match[1], parameter: match[2] !== undefined ? parseInt(match[2]) : null})
+        } else if (match[3]) {
+            current.children.push({type: 'hex', value: parseInt(match[3], 16)})
+        } else if (match[4]) {
+            current.children.push({type: 'symbol', value: match[4]})
+        } else if (match[5] == '{') {
+            const group: RtfGroup = {children: []}
+            current.children.push(group)
+            stack.push(group)
+        } else if (match[5] == '}') {
+            // Unbalanced braces are ignored.
+            if (stack.length > 1) {
+                stack.pop()
+            }
+        } else if (match[6]) {
+            current.children.push({type: 'text', value: match[6]})
+        }
+    }
+
+    // The content is in the `{\rtf1 ...}` group.
+    return root.children.length == 1 && !('type' in root.children[0]!) ? root.children[0] as RtfGroup : root
+}
+
+function serializeBlocks(blocks: Block[]): string {
+    const lists: Array<{id: string, tagName: string}> = []
+    let html = ''
+
+    const closeList = () => {
+        html += `</li></${lists.pop()!.tagName}>`
+    }
+
+    for (const block of blocks) {
+        const list = block.list
+
+        if (!list) {
+            while (lists.length) {
+                closeList()
+            }
+            html += block.html
+            continue
+        }
+
+        while (lists.length > list.level + 1) {
+            closeList()
+        }
+
+        const current = lists[list.level]
+        if (current && (current.tagName != list.tagName || current.id != list.id)) {
+            closeList()
+        }
+
+        if (lists.length == list.level + 1) {
+            html += '</li><li>'
+        }
+
+        while (lists.length < list.level + 1) {
+            const style = list.style ? ` style="list-style-type:${list.style}"` : ''
+            const start = list.tagName == 'ol' && list.value > 1 ? ` start="${list.value}"` : ''
+
+            html += `<${list.tagName}${style}${start}><li>`
+            lists.push({id: list.id, tagName: list.tagName})
+        }
+
+        html += block.html
+    }
+
+    while (lists.length) {
+        closeList()
+    }
+
+    return html
+}
+
+function serializeRuns(runs: Run[]): string {
+    let html = ''
+    let index = 0
+
+    while (index < runs.length) {
+        const href = runs[index]!.href
+        let content = ''
+
+        // Consecutive runs with the same link and formatting are merged.
+        while (index < runs.length && runs[index]!.href === href) {
+            const format = runs[index]!.format
+            let text = ''
+
+            while (index < runs.length && runs[index]!.href === href && runs[index]!.format.join() == format.join()) {
+                text += runs[index]!.html
+                index++
+            }
+
+            content += format.map(tagName => `<${tagName}>`).join('') + text +
+                format.slice().reverse().map(tagName => `</${tagName}>`).join('')
+        }
+
+        html += href ? `<a href="${escapeHtml(href)}">${content}</a>` : content
+    }
+
+    return html
+}
+
+function serializeTable(rows: Row[]): string {
+    // Merged cells are added to the first cell of the merge.
+    const verticalMerges: Record<number, Cell> = {}
+
+    const rowsHtml = rows.map(row => {
+        const cells: Cell[] = []
+
+        row.cells.forEach((cell, column) => {
+            if (cell.definition?.merge == 'continue' && cells.length) {
+                cells[cells.length - 1]!.colSpan++
+            } else if (cell.definition?.verticalMerge == 'continue' && verticalMerges[column]) {
+                verticalMerges[column]!.rowSpan++
+            } else {
+                if (cell.definition?.verticalMerge == 'first') {
+                    verticalMerges[column] = cell
+                }
+                cells.push(cell)
+            }
+        })
+
+        return {cells, isHeader: row.isHeader}
+    }).map(row => {
+        const tagName = row.isHeader ? 'th' : 'td'
+
+        return '<tr>' + row.cells.map(cell => {
+            const colSpan = cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : ''
+            const rowSpan = cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : ''
+
+            return `<${tagName}${colSpan}${rowSpan}>${cell.html}</${tagName}>`
+        }).join('') + '</tr>'
+    })
+
+    return `<table style="width:100%">${serializeColumnWidths(rows)}<tbody>${rowsHtml.join('')}</tbody></table>`
+}
+
+function serializeColumnWidths(rows: Row[]): string {
+    // Only a row without merged cells tells the width of every column.
+    const row = rows.find(row => row.cells.every(cell => cell.definition && !cell.definition.merge))
+
+    if (!row) {
+        return ''
+    }
+
+    const rights = row.cells.map(cell => cell.definition!.right)
+    const widths = rights.map((right, index) => right - (index ? rights[index - 1]! : 0))
+    const totalWidth = rights[rights.length - 1] ?? 0
+
+    if (totalWidth <= 0 || widths.some(width => width <= 0)) {
+        return ''
+    }
+
+    return '<colgroup>' + widths.map(width => `<col style="width:${Math.round(width / totalWidth * 10000) / 100}%">`).join('') + '</colgroup>'
+}
+
+function parseNumbering(group: RtfGroup): Numbering {
+    let level = 0
+    let numberFormat = 0
+    let start = 1
+
+    for (const node of group.children) {
+        if (!('type' in node) || node.type != 'word') {
+            continue
+        }
+
+        if (node.name == 'pnlvlblt') {
+            numberFormat = 23
+        } else if (node.name == 'pnlvl') {
+            level = Math.max(0, (node.parameter ?? 1) - 1)
+        } else if (node.name == 'pnstart') {
+            start = node.parameter ?? 1
+        } else if (node.name in PN_NUMBER_FORMATS) {
+            numberFormat = PN_NUMBER_FORMATS[node.name]!
+        }
+    }
+
+    return {level, numberFormat, start}
+}
+
+function parseHyperlink(instruction: string): string | null {
+    // Links to a bookmark (`\l`) go nowhere in the editor.
+    const match = instruction.match(/^\s*HYPERLINK\s+(\\l\s+)?"([^"]+)"/i)
+
+    return match && !match[1] ? match[2]! : null
+}
+
+// Word writes the bullet of the list marker in the Symbol, Courier New or Wingdings font.
+function getBulletStyle(marker: string | null): string | null {
+    const bullet = (marker ?? '').trim()
+
+    if (bullet == 'o') {
+        return 'circle'
+    } else if (bullet == '·') {
+        return 'disc'
+    } else if (bullet == '§') {
+        return 'square'
+    }
+
+    return null
+}
+
+function getFormatTagNames(state: CharacterState): string[] {
+    const tagNames: string[] = []
+
+    if (state.bold) {
+        tagNames.push('b')
+    }
+    if (state.italic) {
+        tagNames.push('i')
+    }
+    if (state.underline) {
+        tagNames.push('u')
+    }
+    if (state.strike) {
+        tagNames.push('s')
+    }
+    if (state.superscript) {
+        tagNames.push('sup')
+    } else if (state.subscript) {
+        tagNames.push('sub')
+    }
+
+    return tagNames
+}
+
+// The text of a group and its subgroups, with the bytes as character codes.
+function getGroupText(group: RtfGroup): string {
+    return group.children.map(node => {
+        if (!('type' in node)) {
+            return getGroupText(node)
+        }
+
+        switch (node.type) {
+            case 'text':
+                return node.value
+            case 'hex':
+                return String.fromCharCode(node.value)
+            case 'symbol':
+                return ['\\', '{', '}'].includes(node.value) ? node.value : ''
+            default:
+                return node.name == 'tab' ? '\t' : ''
+        }
+    }).join('')
+}
+
+function findDestination(group: RtfGroup, name: string): RtfGroup | undefined {
+    return group.children.find((node): node is RtfGroup => {
+        if ('type' in node) {
+            return false
+        }
+
+        const destination = node.children[isSymbol(node.children[0], '*') ? 1 : 0]
+        return !!destination && 'type' in destination && destination.type == 'word' && destination.name == name
+    })
+}
+
+function getChildGroups(group: RtfGroup, name: string): RtfGroup[] {
+    return group.children.filter((node): node is RtfGroup => {
+        const first = !('type' in node) ? node.children[0] : undefined
+        return !!first && 'type' in first && first.type == 'word' && first.name == name
+    })
+}
+
+function findWord(group: RtfGroup, name: string): {parameter: number | null} | undefined {
+    for (const node of group.children) {
+        if ('type' in node && node.type == 'word' && node.name == name) {
+            return node
+        }
+    }
+
+    return undefined
+}
+
+function isSymbol(node: RtfNode | undefined, symbol: string): boolean {
+    return !!node && 'type' in node && node.type == 'symbol' && node.value == symbol
+}
+
+function decodeBytes(bytes: number[], codepage: number): string {
+    try {
+        return new TextDecoder(CODEPAGE_ENCODINGS[codepage] ?? `windows-${codepage}`).decode(new Uint8Array(bytes))
+    } catch {
+        return String.fromCharCode(...bytes)
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function createCharacterState(font: number | null): CharacterState {
+    return {
+        bold: false,
+        italic: false,
+        underline: false,
+        strike: false,
+        superscript: false,
+        subscript: false,
+        hidden: false,
+        font,
+        unicodeSkip: 1
+    }
+}
+
+function createParagraphState(): ParagraphState {
+    return {
+        align: null,
+        leftIndent: 0,
+        inTable: false,
+        listId: null,
+        listLevel: 0,
+        numbering: null
+    }
+}
@@ -0,0 +1,362 @@
+import {convertStyleToObject, isList} from './normalizer'
+import {getFormattingTagNames} from './formatting'
+
+// The serialized forms of the nodes in lexical, declared here so the main entry does not depend on it.
+export interface SerializedLexicalNode {
+    type: string
+    version: number
+}
+
+export type ElementFormatType = 'left' | 'start' | 'center' | 'right' | 'end' | 'justify' | ''
+
+export interface SerializedElementNode<T extends SerializedLexicalNode = SerializedLexicalNode> extends SerializedLexicalNode {
+    children: T[]
+    direction: 'ltr' | 'rtl' | null
+    format: ElementFormatType
+    indent: number
+}
+
+export interface SerializedParagraphNode extends SerializedElementNode {
+    textFormat: number
+}
+
+export interface SerializedTextNode extends SerializedLexicalNode {
+    detail: number
+    format: number
+    mode: 'normal' | 'token' | 'segmented'
+    style: string
+    text: string
+}
+
+// The serialized forms of the nodes in @lexical/rich-text, @lexical/list, @lexical/link and @lexical/table.
+export interface SerializedHeadingNode extends SerializedElementNode {
+    tag: 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
+}
+
+export interface SerializedListNode extends SerializedElementNode {
+    listType: 'number' | 'bullet'
+    start: number
+    tag: 'ol' | 'ul'
+    // Not read by the default ListNode, but available to a custom list node.
+    listStyleType?: string
+    isLegalStyleList?: boolean
+}
+
+export interface SerializedListItemNode extends SerializedElementNode {
+    value: number
+    checked: boolean | undefined
+}
+
+export interface SerializedLinkNode extends SerializedElementNode {
+    url: string
+    rel: string | null
+    target: string | null
+    title: string | null
+}
+
+export interface SerializedTableCellNode extends SerializedElementNode {
+    colSpan: number
+    rowSpan: number
+    headerState: number
+    backgroundColor: string | null
+}
+
+const TEXT_FORMATS: Record<string, number> = {
+    b: 1, strong: 1,
+    i: 2, em: 2,
+    s: 4, strike: 4, del: 4,
+    u: 8, ins: 8,
+    code: 16,
+    sub: 32,
+    sup: 64,
+    mark: 128
+}
+
+const TEXT_STYLE_PROPERTIES = ['color', 'background-color']
+
+// The header state of a cell in the first row, see TableCellHeaderStates.ROW.
+const HEADER_STATE_ROW = 1
+
+const BLOCK_ELEMENTS = [
+    'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4',
+    'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]
+
+export function convertToSerializedNodes(root: Element): SerializedLexicalNode[] {
+    return convertChildrenToBlocks(root)
+}
+
+function convertChildrenToBlocks(parent: Element): SerializedLexicalNode[] {
+    const blocks: SerializedLexicalNode[] = []
+    let inlineNodes: Node[] = []
+
+    // Inline content between blocks is collected into a paragraph.
+    const flushInlineNodes = () => {
+        const children = convertInlineNodes(inlineNodes, 0, '')
+        const isWhitespace = children.every(child => child.type == 'text' && !(child as SerializedTextNode).text.trim())
+        if (children.length && !isWhitespace) {
+            blocks.push(createParagraph(children, ''))
+        }
+        inlineNodes = []
+    }
+
+    for (const node of Array.from(parent.childNodes)) {
+        if (isBlockElement(node)) {
+            flushInlineNodes()
+            blocks.push(...convertBlock(node as Element))
+        } else {
+            inlineNodes.push(node)
+        }
+    }
+    flushInlineNodes()
+
+    return blocks
+}
+
+function convertBlock(element: Element): SerializedLexicalNode[] {
+    const tagName = element.tagName.toLowerCase()
+    const format = getElementFormat(element)
+    const indent = getElementIndent(element)
+
+    switch (tagName) {
+        case 'p':
+            return [createParagraph(convertInlineNodes(Array.from(element.childNodes), 0, ''), format, indent)]
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6':
+            return [{
+                ...createElementNode('heading', convertInlineNodes(Array.from(element.childNodes), 0, ''), format, indent),
+                tag: tagName
+            } as SerializedHeadingNode]
+        case 'blockquote':
+            return [createElementNode('quote', convertParagraphsToInlineNodes(Array.from(element.childNodes)), format, indent)]
+        case 'pre':
+            return [{
+                ...createElementNode('code', convertPreformattedText(element.textContent || ''), format),
+                language: null
+            } as SerializedElementNode]
+        case 'ul':
+        case 'ol':
+            return [convertList(element)]
+        case 'table':
+            return [convertTable(element)]
+        case 'hr':
+            return [{type: 'horizontalrule', version: 1}]
+        default:
+            return convertChildrenToBlocks(element)
+    }
+}
+
+function convertList(list: Element): SerializedListNode {
+    const tagName = list.tagName.toLowerCase() as 'ol' | 'ul'
+    const start = parseInt(list.getAttribute('start') || '') || 1
+    const listStyleType = convertStyleToObject(list.getAttribute('style') || '')['list-style-type']
+    const children: SerializedListItemNode[] = []
+    let value = start
+
+    for (const listItem of Array.from(list.children)) {
+        if (listItem.tagName.toLowerCase() != 'li') {
+            continue
+        }
+
+        const nestedLists = Array.from(listItem.children).filter(child => isList(child))
+        const contentNodes = Array.from(listItem.childNodes).filter(child => !nestedLists.includes(child as Element))
+        const content = convertParagraphsToInlineNodes(contentNodes)
+
+        if (content.length || !nestedLists.length) {
+            value = parseInt(listItem.getAttribute('value') || '') || value
+            children.push(createListItem(content, value++))
+        }
+
+        // Lexical nests a list in a list item of its own.
+        for (const nestedList of nestedLists) {
+            children.push(createListItem([convertList(nestedList)], value))
+        }
+    }
+
+    return {
+        ...createElementNode('list', children, ''),
+        listType: tagName == 'ol' ? 'number' : 'bullet',
+        start,
+        tag: tagName,
+        ...(listStyleType ? {listStyleType} : {}),
+        ...(list.classList.contains('legal-list') ? {isLegalStyleList: true} : {})
+    }
+}
+
+// List items and quotes cannot contain paragraphs, so these are joined with line breaks.
+function convertParagraphsToInlineNodes(nodes: Node[]): SerializedLexicalNode[] {
+    const children: SerializedLexicalNode[] = []
+
+    for (const node of nodes) {
+        const isParagraph = isBlockElement(node)
+        const converted = convertInlineNodes(isParagraph ? Array.from(node.childNodes) : [node], 0, '')
+
+        if (isParagraph && children.length && converted.length) {
+            children.push({type: 'linebreak', version: 1})
+        }
+        children.push(...converted)
+    }
+
+    return children
+}
+
+function convertPreformattedText(text: string): SerializedLexicalNode[] {
+    const children: SerializedLexicalNode[] = []
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (index > 0) {
+            children.push({type: 'linebreak', version: 1})
+        }
+        if (line) {
+            children.push(createText(line, 0, ''))
+        }
+    })
+
+    return children
+}
+
+function convertTable(table: Element): SerializedElementNode {
+    const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table)
+
+    return createElementNode('table', rows.map(row => {
+        const cells = Array.from(row.children).filter(cell => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+
+        return createElementNode('tablerow', cells.map(cell => {
+            const style = convertStyleToObject(cell.getAttribute('style') || '')
+            const blocks = convertChildrenToBlocks(cell)
+
+            return {
+                ...createElementNode('tablecell', blocks.length ? blocks : [createParagraph([], '')], ''),
+                colSpan: parseInt(cell.getAttribute('colspan') || '') || 1,
+                rowSpan: parseInt(cell.getAttribute('rowspan') || '') || 1,
+                headerState: cell.tagName.toLowerCase() == 'th' ? HEADER_STATE_ROW : 0,
+                backgroundColor: style['background-color'] ?? null
+            } as SerializedTableCellNode
+        }), '')
+    }), '')
+}
+
+function convertInlineNodes(nodes: Node[], format: number, style: string): SerializedLexicalNode[] {
+    const result: SerializedLexicalNode[] = []
+
+    for (const node of nodes) {
+        if (node.nodeType == 3) {
+            const text = (node.textContent || '').replace(/[\t\n\r ]+/g, ' ')
+
+            if (text) {
+                result.push(createText(text, format, style))
+            }
+            continue
+        }
+
+        if (node.nodeType != 1) {
+            continue
+        }
+
+        const element = node as Element
+        const tagName = element.tagName.toLowerCase()
+
+        if (tagName == 'br') {
+            result.push({type: 'linebreak', version: 1})
+            continue
+        }
+
+        if (['img', 'style', 'script', 'colgroup'].includes(tagName)) {
+            continue
+        }
+
+        const elementStyle = convertStyleToObject(element.getAttribute('style') || '')
+        const elementFormat = getFormattingTagNames(elementStyle)
+            .reduce((bits, formatTagName) => bits | (TEXT_FORMATS[formatTagName] ?? 0), format | (TEXT_FORMATS[tagName] ?? 0))
+        const textStyle = mergeTextStyle(style, elementStyle)
+        const children = convertInlineNodes(Array.from(element.childNodes), elementFormat, textStyle)
+
+        if (tagName == 'a' && element.getAttribute('href')) {
+            result.push({
+                ...createElementNode('link', children, ''),
+                url: element.getAttribute('href')!,
+                rel: element.getAttribute('rel'),
+                target: element.getAttribute('target'),
+                title: element.getAttribute('title')
+            } as SerializedLinkNode)
+        } else {
+            result.push(...children)
+        }
+    }
+
+    return result
+}
+
+function createElementNode<T extends SerializedLexicalNode>(
+    type: string,
+    children: T[],
+    format: ElementFormatType,
+    indent = 0
+): SerializedElementNode<T> {
+    return {
+        type,
+        version: 1,
+        children,
+        direction: 'ltr',
+        format,
+        indent
+    }
+}
+
+function createParagraph(children: SerializedLexicalNode[], format: ElementFormatType, indent = 0): SerializedParagraphNode {
+    return {
+        ...createElementNode('paragraph', children, format, indent),
+        textFormat: 0
+    }
+}
+
+function createListItem(children: SerializedLexicalNode[], value: number): SerializedListItemNode {
+    return {
+        ...createElementNode('listitem', children, ''),
+        value,
+        checked: undefined
+    }
+}
+
+function createText(text: string, format: number, style: string): SerializedTextNode {
+    return {
+        type: 'text',
+        version: 1,
+        text,
+        format,
+        style,
+        mode: 'normal',
+        detail: 0
+    }
+}
+
+function mergeTextStyle(style: string, elementStyle: Record<string, string>): string {
+    const textStyle = convertStyleToObject(style)
+
+    for (const property of TEXT_STYLE_PROPERTIES) {
+        if (elementStyle[property]) {
+            textStyle[property] = elementStyle[property]!
+        }
+    }
+
+    return Object.keys(textStyle).map(property => `${property}: ${textStyle[property]};`).join(' ')
+}
+
+function getElementFormat(element: Element): ElementFormatType {
+    const textAlign = convertStyleToObject(element.getAttribute('style') || '')['text-align'] || element.getAttribute('align') || ''
+
+    return (['left', 'start', 'center', 'right', 'end', 'justify'].includes(textAlign) ? textAlign : '') as ElementFormatType
+}
+
+// The indent level as read by Lexical, 20px of text indent per level.
+function getElementIndent(element: Element): number {
+    return Math.max(0, Math.round((parseInt(convertStyleToObject(element.getAttribute('style') || '')['text-indent'] || '') || 0) / 20))
+}
+
+function isBlockElement(node: Node): boolean {
+    return node.nodeType == 1 && BLOCK_ELEMENTS.includes((node as Element).tagName.toLowerCase())
+}
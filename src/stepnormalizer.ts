@@ -0,0 +1,120 @@
+import {convertToSerializedNodes, type SerializedLexicalNode} from './serializednodes'
+import type {
+    NormalizerOptions,
+    NormalizerReport,
+    NormalizerResult,
+    NormalizerStep,
+    NormalizerStepContext,
+    PasteNormalizer
+} from './types'
+
+export abstract class StepNormalizer<Options extends NormalizerOptions = NormalizerOptions> implements PasteNormalizer {
+    protected options: Options
+    private steps: NormalizerStep<Options>[] = []
+    private disabledSteps = new Set<string>()
+
+    constructor(options: Options) {
+        this.options = options
+    }
+
+    public abstract isActive(htmlString: string): boolean
+
+    // The options override the options of the normalizer for this call only.
+    public normalize(htmlString: string, options: Partial<Options> = {}): string {
+        return this.normalizeWithResult(htmlString, options).html
+    }
+
+    // Also returns the data extracted from the pasted content, like the comments.
+    public normalizeWithResult(htmlString: string, options: Partial<Options> = {}): NormalizerResult {
+        const result = createResult()
+        result.html = this.normalizeDocument(htmlString, {...this.options, ...options}, result).body.innerHTML
+        return result
+    }
+
+    // Also returns what happened to the pasted content, like the removed elements and the unresolved images.
+    public normalizeWithReport(htmlString: string, options: Partial<Options> = {}): {html: string, report: NormalizerReport} {
+        const {html, report} = this.normalizeWithResult(htmlString, options)
+        return {html, report}
+    }
+
+    // Returns the normalized content as Lexical nodes, which can be inserted with `$parseSerializedNode`.
+    public normalizeToSerializedNodes(htmlString: string, options: Partial<Options> = {}): SerializedLexicalNode[] {
+        return convertToSerializedNodes(this.normalizeDocument(htmlString, {...this.options, ...options}, createResult()).body)
+    }
+
+    public getSteps(): NormalizerStep<Options>[] {
+        return [...this.steps]
+    }
+
+    // Replaces all steps, which can also be used to reorder the built-in ones.
+    public setSteps(steps: NormalizerStep<Options>[]): this {
+        this.steps = [...steps]
+        return this
+    }
+
+    public addStepBefore(name: string, step: NormalizerStep<Options>): this {
+        this.steps.splice(this.getStepIndex(name), 0, step)
+        return this
+    }
+
+    public addStepAfter(name: string, step: NormalizerStep<Options>): this {
+        this.steps.splice(this.getStepIndex(name) + 1, 0, step)
+        return this
+    }
+
+    public removeStep(name: string): this {
+        this.steps.splice(this.getStepIndex(name), 1)
+        return this
+    }
+
+    public disableStep(name: string): this {
+        this.getStepIndex(name)
+        this.disabledSteps.add(name)
+        return this
+    }
+
+    public enableStep(name: string): this {
+        this.disabledSteps.delete(name)
+        return this
+    }
+
+    protected abstract normalizeDocument(htmlString: string, options: Options, result: NormalizerResult): Document
+
+    protected createDomParser(): Pick<DOMParser, 'parseFromString'> {
+        return new (this.options.dom?.DOMParser ?? DOMParser)()
+    }
+
+    protected runSteps(doc: Document, context: NormalizerStepContext<Options>) {
+        for (const step of this.steps) {
+            if (!this.disabledSteps.has(step.name)) {
+                step.run(doc, context)
+            }
+        }
+    }
+
+    private getStepIndex(name: string): number {
+        const index = this.steps.findIndex(step => step.name === name)
+
+        if (index < 0) {
+            throw new Error(`Unknown normalizer step "${name}".`)
+        }
+
+        return index
+    }
+}
+
+function createResult(): NormalizerResult {
+    return {
+        html: '',
+        comments: [],
+        report: {
+            lists: [],
+            removedElements: {},
+            unresolvedImages: [],
+            unknownListFormats: [],
+            skippedShapes: [],
+            imageCountMismatch: null,
+            unsupportedImages: []
+        }
+    }
+}
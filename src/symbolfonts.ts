@@ -0,0 +1,115 @@
+import {convertObjectToStyle, convertStyleToObject} from './normalizer'
+
+// The characters of the symbol fonts by their code in the font, in segments of consecutive codes. For the checkboxes
+// and arrows of Wingdings the widely supported characters are used instead of their exact Unicode equivalents.
+const SYMBOL_FONT_CHARACTERS: Record<string, Array<[number, string]>> = {
+    symbol: [
+        [0x20, ' !∀#∃%&∋()∗+,−./0123456789:;<=>?≅ΑΒΧΔΕΦΓΗΙϑΚΛΜΝΟΠΘΡΣΤΥςΩΞΨΖ[∴]⊥_‾αβχδεφγηιϕκλμνοπθρστυϖωξψζ{|}∼'],
+        [0xA1, 'ϒ′≤⁄∞ƒ♣♦♥♠↔←↑→↓°±″≥×∝∂•÷≠≡≈…⏐⎯↵ℵℑℜ℘⊗⊕∅∩∪⊃⊇⊄⊂⊆∈∉∠∇®©™∏√⋅¬∧∨⇔⇐⇑⇒⇓◊〈®©™∑⎛⎜⎝⎡⎢⎣⎧⎨⎩⎪'],
+        [0xF1, '〉∫⌠⎮⌡⎞⎟⎠⎤⎥⎦⎫⎬⎭']
+    ],
+    wingdings: [
+        [0x20, ' 🖉✂✁👓🕭🕮🕯🕿✆🖂🖃📪📫📬📭📁📂📄🗏🗐🗄⌛🖮🖰🖲🖳🖴🖫🖬✇✍🖎✌👌👍👎☜☞☝☟🖐☺😐☹💣☠🏳🏱✈☼💧❄🕆✞🕈✠✡☪☯ॐ☸♈♉♊♋♌♍♎♏♐♑♒♓🙰🙵●🔾■☐🞐❑❒⬧⧫◆❖⬥⌧⮹⌘🏵🏶🙶🙷'],
+        [0x80, '⓪①②③④⑤⑥⑦⑧⑨⑩⓿❶❷❸❹❺❻❼❽❾❿🙢🙠🙡🙣🙞🙜🙝🙟·•▪⚪🞆🞈◉◎🔿▪◻🟂✦★✶✴✹✵⯐⌖⟡⌑⯑✪✰🕐🕑🕒🕓🕔🕕🕖🕗🕘🕙🕚🕛⮰⮱⮲⮳⮴⮵⮶⮷🙪🙫🙕🙔🙗🙖🙐🙑🙒🙓⌫⌦⮘⮚⮙⮛⮈⮊⮉⮋←→↑↓↖↗↙↘⬅➡⬆⬇⬉⬈⬋⬊⇦⇨⇧⇩⬄⇳⬁⬀⬃⬂🢬🢭✗✓☒☑']
+    ],
+    webdings: [
+        [0x20, ' 🕷🕸🕲🕶🏆🎖🖇🗨🗩🗰🗱🌶🎗🙾🙼🗕🗖🗗⏴⏵⏶⏷⏪⏩⏮⏭⏸⏹⏺🗚🗳🛠🏗🏘🏙🏚🏜🏭🏛🏠🏖🏝🛣🔍🏔👁👂🏞🏕🛤🏟🛳🕬🕫🕨🔈🎔🎕🗬🙽🗭🗪🗫⮔✔🚲⬜🛡📦🛱⬛🚑🛈🛩🛰🟈🕴⚫🛥🚔🗘🗙❓🛲🚇🚍⛳🛇⊖🚭🗮|🗯🗲'],
+        [0x80, '🚹🚺🛉🛊🚼👽🏋⛷🏂🏌🏊🏄🏍🏎🚘🗠🛢💰🏷💳👪🗡🗢🗣✯🖄🖅🖃🖆🖹🖺🖻🕵🕰🖽🖾📋🗒🗓📖📚🗞🗟🗃🗂🖼🎭🎜🎘🎙🎧💿🎞📷🎟🎬📽📹📾📻🎚🎛📺💻🖥🖦🖧🕹🎮🕻🕼📟🖁🖀🖨🖩🖿🖪🗜🔒🔓🗝📥📤🕳🌣🌤🌥🌦☁🌧🌨🌩🌪🌬🌫🌜🌡🛋🛏🍽🍸🛎🛍Ⓟ♿🛆🖈🎓🗤🗥🗦🗧🛪🐿🐦🐟🐕🐈🙬🙮🙭🙯🗺🌍🌏🌎🕊']
+    ]
+}
+
+const SYMBOL_FONT_MAPS = createSymbolFontMaps()
+
+// Word writes the characters of symbol fonts as the letters at their code, which show up as the wrong letters once
+// the font is removed. These are mapped to the Unicode characters they display.
+export function transformSymbolFonts(doc: Document) {
+    for (const text of collectTextNodes(doc.body)) {
+        const font = findFont(text.parentElement, doc.body)
+
+        if (font) {
+            text.data = convertSymbolFontText(text.data, font)
+        }
+    }
+
+    // The symbol font would not display the Unicode characters.
+    for (const element of Array.from(doc.body.querySelectorAll('[style*="font-family"]'))) {
+        const style = convertStyleToObject(element.getAttribute('style') || '')
+
+        if (style['font-family'] && getSymbolFontMap(getFontName(style['font-family']))) {
+            delete style['font-family']
+            element.setAttribute('style', convertObjectToStyle(style))
+        }
+    }
+}
+
+// Converts text set in a symbol font, the text of other fonts is returned unchanged.
+export function convertSymbolFontText(text: string, fontFamily: string): string {
+    const characters = getSymbolFontMap(getFontName(fontFamily))
+
+    return characters ? Array.from(text).map(character => convertCharacter(character, characters)).join('') : text
+}
+
+function convertCharacter(character: string, characters: Record<number, string>): string {
+    let code = character.codePointAt(0)!
+
+    // Word also writes the symbols in the private use area, e.g. U+F0FC for code 0xFC.
+    if (code >= 0xF020 && code <= 0xF0FF) {
+        code -= 0xF000
+    }
+
+    return characters[code] ?? character
+}
+
+// The font family of the closest element which sets one.
+function findFont(element: Element | null, root: Element): string | null {
+    while (element && element !== root) {
+        const style = convertStyleToObject(element.getAttribute('style') || '')
+        const fontFamily = style['mso-symbol-font-family'] ?? style['mso-char-font'] ?? style['font-family'] ??
+            // The family follows the size in the `font` shorthand, e.g. `7.0pt "Times New Roman"`.
+            style['font']?.replace(/^.*?\d[^\s]*\s+/, '')
+
+        if (fontFamily) {
+            return fontFamily
+        }
+
+        element = element.parentElement
+    }
+
+    return null
+}
+
+function getSymbolFontMap(font: string | null): Record<number, string> | null {
+    return font && Object.prototype.hasOwnProperty.call(SYMBOL_FONT_MAPS, font) ? SYMBOL_FONT_MAPS[font]! : null
+}
+
+function getFontName(fontFamily: string): string {
+    return fontFamily.split(',')[0]!.replace(/["']/g, '').trim().toLowerCase()
+}
+
+function collectTextNodes(root: Node, nodes: Text[] = []): Text[] {
+    for (const node of Array.from(root.childNodes)) {
+        if (node.nodeType == 3) {
+            nodes.push(node as Text)
+        } else {
+            collectTextNodes(node, nodes)
+        }
+    }
+
+    return nodes
+}
+
+function createSymbolFontMaps(): Record<string, Record<number, string>> {
+    const maps: Record<string, Record<number, string>> = {}
+
+    for (const font of Object.keys(SYMBOL_FONT_CHARACTERS)) {
+        maps[font] = {}
+
+        for (const [firstCode, characters] of SYMBOL_FONT_CHARACTERS[font]!) {
+            Array.from(characters).forEach((character, index) => {
+                maps[font]![firstCode + index] = character
+            })
+        }
+    }
+
+    return maps
+}
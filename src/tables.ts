@@ -0,0 +1,202 @@
+import {convertStyleToObject} from './normalizer'
+
+// Cell styles Lexical keeps, everything else is Word layout.
+const CELL_STYLE_PROPERTIES = ['background-color', 'text-align', 'vertical-align']
+
+export function normalizeTables(doc: Document) {
+    for (const table of Array.from(doc.querySelectorAll('table'))) {
+        const rows = getTableRows(table)
+
+        transformHeaderRows(doc, rows)
+        transformColumnWidths(doc, table, rows)
+
+        for (const row of rows) {
+            row.removeAttribute('style')
+
+            for (const cell of getRowCells(row)) {
+                normalizeCellStyle(cell)
+                flattenCellParagraphs(doc, cell)
+            }
+        }
+
+        for (const attribute of ['border', 'cellspacing', 'cellpadding', 'width', 'align', 'class']) {
+            table.removeAttribute(attribute)
+        }
+        table.setAttribute('style', 'width:100%')
+
+        // Word wraps centered tables in a <div align="center">.
+        const parent = table.parentElement
+        if (parent && parent.tagName.toLowerCase() == 'div' && Array.from(parent.childNodes).every(node => node === table || !node.textContent?.trim())) {
+            parent.parentNode?.replaceChild(table, parent)
+        }
+    }
+}
+
+function transformHeaderRows(doc: Document, rows: Element[]) {
+    for (const row of rows) {
+        const style = convertStyleToObject(row.getAttribute('style') || '')
+        const isHeaderRow = style['mso-yfti-firstrow'] == 'yes' ||
+            'mso-yfti-lastfirstrow' in style ||
+            row.parentElement?.tagName.toLowerCase() == 'thead'
+
+        if (!isHeaderRow) {
+            continue
+        }
+
+        for (const cell of getRowCells(row)) {
+            if (cell.tagName.toLowerCase() == 'th') {
+                continue
+            }
+
+            const headerCell = doc.createElement('th')
+
+            for (const attribute of Array.from(cell.attributes)) {
+                headerCell.setAttribute(attribute.name, attribute.value)
+            }
+
+            while (cell.firstChild) {
+                headerCell.appendChild(cell.firstChild)
+            }
+
+            row.replaceChild(headerCell, cell)
+        }
+    }
+}
+
+function transformColumnWidths(doc: Document, table: Element, rows: Element[]) {
+    // Only a row without merged cells tells the width of every column.
+    const row = rows.find(row => getRowCells(row).every(cell => !cell.hasAttribute('colspan') || cell.getAttribute('colspan') == '1'))
+    const widths = row ? getRowCells(row).map(cell => getCellWidth(cell)) : []
+
+    for (const row of rows) {
+        for (const cell of getRowCells(row)) {
+            cell.removeAttribute('width')
+        }
+    }
+
+    if (!widths.length || widths.some(width => width === null)) {
+        return
+    }
+
+    const totalWidth = (widths as number[]).reduce((total, width) => total + width, 0)
+
+    if (!totalWidth) {
+        return
+    }
+
+    const colgroup = doc.createElement('colgroup')
+
+    for (const width of widths as number[]) {
+        const col = doc.createElement('col')
+        col.setAttribute('style', `width:${Math.round(width / totalWidth * 10000) / 100}%`)
+        colgroup.appendChild(col)
+    }
+
+    table.querySelector('colgroup')?.remove()
+    table.insertBefore(colgroup, table.firstChild)
+}
+
+// Not using `table.rows` and `row.cells`, which are missing in some DOM implementations.
+function getTableRows(table: Element): Element[] {
+    return Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table)
+}
+
+function getRowCells(row: Element): Element[] {
+    return Array.from(row.children).filter(cell => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+}
+
+function getCellWidth(cell: Element): number | null {
+    const style = convertStyleToObject(cell.getAttribute('style') || '')
+
+    return convertLengthToPoints(style['width'] ?? cell.getAttribute('width') ?? '')
+}
+
+export function convertLengthToPoints(length: string): number | null {
+    const match = length.trim().match(/^(\d*\.?\d+)\s*(pt|px|in|cm|mm)?$/i)
+
+    if (!match) {
+        return null
+    }
+
+    const value = parseFloat(match[1]!)
+
+    switch ((match[2] ?? 'px').toLowerCase()) {
+        case 'pt':
+            return value
+        case 'in':
+            return value * 72
+        case 'cm':
+            return value * 72 / 2.54
+        case 'mm':
+            return value * 72 / 25.4
+        default:
+            return value * 0.75
+    }
+}
+
+function normalizeCellStyle(cell: Element) {
+    const style = convertStyleToObject(cell.getAttribute('style') || '')
+    const backgroundColor = getCellBackgroundColor(style)
+
+    if (backgroundColor) {
+        style['background-color'] = backgroundColor
+    }
+
+    if (cell.getAttribute('valign')) {
+        style['vertical-align'] = cell.getAttribute('valign')!
+    }
+
+    const updatedStyle = CELL_STYLE_PROPERTIES
+        .filter(property => style[property])
+        .map(property => `${property}:${style[property]}`)
+        .join(';')
+
+    for (const attribute of ['style', 'width', 'valign', 'class', 'nowrap']) {
+        cell.removeAttribute(attribute)
+    }
+
+    if (updatedStyle) {
+        cell.setAttribute('style', updatedStyle)
+    }
+}
+
+function getCellBackgroundColor(style: Record<string, string>): string | null {
+    const background = style['background-color'] ?? style['background'] ?? style['mso-shading']
+
+    // Word adds `mso-shading:white` to cells without any shading.
+    if (!background || (!style['background-color'] && !style['background'] && background == 'white')) {
+        return null
+    }
+
+    // Word writes the shading as "#D9E2F3", "silver" or "white windowtext" (a color with a pattern).
+    const color = background.split(/\s+/)[0]!
+
+    if (['auto', 'transparent', 'windowtext', 'none'].includes(color.toLowerCase())) {
+        return null
+    }
+
+    return color
+}
+
+function flattenCellParagraphs(doc: Document, cell: Element) {
+    // Empty <o:p> fillers are added to every cell paragraph.
+    for (const filler of Array.from(cell.getElementsByTagName('o:p'))) {
+        if (!filler.textContent?.trim()) {
+            filler.parentNode?.removeChild(filler)
+        }
+    }
+
+    const paragraphs = Array.from(cell.children).filter(child => child.tagName.toLowerCase() == 'p')
+
+    paragraphs.forEach((paragraph, index) => {
+        if (index > 0) {
+            cell.insertBefore(doc.createElement('br'), paragraph)
+        }
+
+        while (paragraph.firstChild) {
+            cell.insertBefore(paragraph.firstChild, paragraph)
+        }
+
+        cell.removeChild(paragraph)
+    })
+}
@@ -0,0 +1,79 @@
+export interface PasteNormalizer {
+    isActive(htmlString: string): boolean
+    normalize(htmlString: string): string
+}
+
+// The DOM implementation used to parse the pasted html, e.g. from linkedom or jsdom outside the browser.
+export interface DomAdapter {
+    DOMParser: new () => Pick<DOMParser, 'parseFromString'>
+}
+
+export interface NormalizerOptions {
+    dom?: DomAdapter
+}
+
+export interface NormalizerComment {
+    id: string
+    author: string | null
+    initials: string | null
+    date: string | null
+    text: string
+    // The commented text in the pasted content.
+    reference: string
+}
+
+export interface NormalizerReportList {
+    id: string | null
+    order: string | null
+    level: number
+}
+
+export interface NormalizerReportShape {
+    id: string | null
+    type: string | null
+}
+
+export interface NormalizerReportImageCount {
+    images: number
+    pictures: number
+}
+
+// What happened to the pasted content, to warn the user or find the Word constructs which are not handled yet.
+export interface NormalizerReport {
+    lists: NormalizerReportList[]
+    // The amount of Word specific elements removed, by tag name.
+    removedElements: Record<string, number>
+    // The `file:///` sources of the images, which cannot be loaded by the browser.
+    unresolvedImages: string[]
+    // The `mso-level-number-format` values which fell back to a decimal list.
+    unknownListFormats: string[]
+    // The VML shapes without image, like text boxes and drawings.
+    skippedShapes: NormalizerReportShape[]
+    // The amounts of local images and of pictures in the `text/rtf` data, when these differ and the images could not be
+    // matched.
+    imageCountMismatch: NormalizerReportImageCount | null
+    // The types of the pictures in the `text/rtf` data which the browser cannot display, like `image/emf`.
+    unsupportedImages: string[]
+}
+
+export interface NormalizerResult {
+    html: string
+    comments: NormalizerComment[]
+    report: NormalizerReport
+}
+
+export interface NormalizerStepContext<Options extends NormalizerOptions = NormalizerOptions> {
+    stylesString: string
+    // The options of the normalizer, merged with the options passed to `normalize`.
+    options: Options
+    // Collects the data steps extract from the pasted content, `html` is set after the last step.
+    result: NormalizerResult
+}
+
+export interface NormalizerStep<Options extends NormalizerOptions = NormalizerOptions> {
+    name: string
+    run(doc: Document, context: NormalizerStepContext<Options>): void
+}
+
+// A step on the (normalized) html string, e.g. sanitizing or rewriting links.
+export type PasteTransform = (htmlString: string) => string